@@ -0,0 +1,13 @@
+// Vercel entry for the relay (same handler as server/index.mjs).
+// State is in memory, so it only lives as long as a warm function instance:
+// fine for a quick demo, but for an event run `npm run relay` on the display machine.
+import { createRelay } from '../server/relay.mjs'
+
+const relay = createRelay()
+
+export default async function handler(req, res) {
+  if (!(await relay.handle(req, res))) {
+    res.statusCode = 404
+    res.end()
+  }
+}
@@ -0,0 +1,30 @@
+// Downloads the bundled theme fonts (OFL, from the Google Fonts repo) into
+// public/fonts so themes that use them also work offline.
+// Run once on a connected machine: npm run fetch-fonts
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+const GOOGLE_FONTS = 'https://raw.githubusercontent.com/google/fonts/main/ofl'
+
+// file names must match BUNDLED_FONTS in src/theme.ts
+const FONTS = {
+  'Caveat.ttf': `${GOOGLE_FONTS}/caveat/Caveat%5Bwght%5D.ttf`,
+  'Orbitron.ttf': `${GOOGLE_FONTS}/orbitron/Orbitron%5Bwght%5D.ttf`,
+  'PressStart2P.ttf': `${GOOGLE_FONTS}/pressstart2p/PressStart2P-Regular.ttf`,
+  'ZCOOLKuaiLe.ttf': `${GOOGLE_FONTS}/zcoolkuaile/ZCOOLKuaiLe-Regular.ttf`,
+}
+
+const dest = resolve('public/fonts')
+mkdirSync(dest, { recursive: true })
+
+for (const [file, url] of Object.entries(FONTS)) {
+  const out = resolve(dest, file)
+  if (existsSync(out) && !process.argv.includes('--force')) {
+    console.log(`${file} already present`)
+    continue
+  }
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`)
+  writeFileSync(out, Buffer.from(await res.arrayBuffer()))
+  console.log(`${file} saved to public/fonts`)
+}
@@ -0,0 +1,29 @@
+// Downloads the MediaPipe models into public/models so the build
+// ships them next to dist/wasm and the app can start without internet.
+// Run once on a connected machine: npm run fetch-models
+import { existsSync, mkdirSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+const MODELS = {
+  'face_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+  'hand_landmarker.task':
+    'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  'selfie_multiclass_256x256.tflite':
+    'https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_multiclass_256x256/float32/latest/selfie_multiclass_256x256.tflite',
+}
+
+const dest = resolve('public/models')
+mkdirSync(dest, { recursive: true })
+
+for (const [file, url] of Object.entries(MODELS)) {
+  const out = resolve(dest, file)
+  if (existsSync(out) && !process.argv.includes('--force')) {
+    console.log(`${file} already present`)
+    continue
+  }
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`)
+  writeFileSync(out, Buffer.from(await res.arrayBuffer()))
+  console.log(`${file} saved to public/models`)
+}
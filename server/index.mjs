@@ -0,0 +1,64 @@
+// Local companion server for events: serves the built app (dist/) plus the
+// remote-submission relay on one port, so phones on the venue wifi can open
+// http://<this-machine>:8787/submit.html
+//
+//   npm run build && npm run relay        PORT=9000 npm run relay
+import { createServer } from 'http'
+import { existsSync, readFileSync, statSync } from 'fs'
+import { networkInterfaces } from 'os'
+import { extname, join, normalize, resolve, sep } from 'path'
+import { createRelay } from './relay.mjs'
+
+const PORT = Number(process.env.PORT) || 8787
+const ROOT = resolve('dist')
+
+const MIME = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.wasm': 'application/wasm',
+  '.task': 'application/octet-stream',
+  '.tflite': 'application/octet-stream',
+  '.ttf': 'font/ttf',
+}
+
+const relay = createRelay()
+
+function serveStatic(req, res) {
+  const pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://local').pathname)
+  let file = normalize(join(ROOT, pathname))
+  // ROOT + sep: a bare prefix check would also let ../dist-ssr/ through
+  if (file !== ROOT && !file.startsWith(ROOT + sep)) {
+    res.statusCode = 403
+    return res.end()
+  }
+  if (existsSync(file) && statSync(file).isDirectory()) file = join(file, 'index.html')
+  if (!existsSync(file)) {
+    res.statusCode = 404
+    return res.end('Not found')
+  }
+  res.setHeader('Content-Type', MIME[extname(file)] ?? 'application/octet-stream')
+  res.end(readFileSync(file))
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    if (!(await relay.handle(req, res))) serveStatic(req, res)
+  } catch (err) {
+    console.error(err)
+    if (!res.headersSent) res.statusCode = 500
+    res.end()
+  }
+})
+
+server.listen(PORT, () => {
+  if (!existsSync(ROOT)) console.warn('dist/ not found: run "npm run build" first (the relay API still works)')
+  console.log(`Display:  http://localhost:${PORT}/`)
+  for (const list of Object.values(networkInterfaces())) {
+    for (const net of list ?? []) {
+      if (net.family === 'IPv4' && !net.internal) console.log(`Phones:   http://${net.address}:${PORT}/submit.html`)
+    }
+  }
+})
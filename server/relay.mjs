@@ -0,0 +1,224 @@
+// Remote thought relay: phones POST text, the display listens over SSE.
+// No dependencies and no external services -- all state lives in this process.
+//
+//   POST /api/submit    { text, sender }         anyone (rate limited per sender)
+//   GET  /api/stream    SSE: message / pending / config   operator (?lastEventId= to replay)
+//   POST /api/moderate  { id, approve }          operator
+//   POST /api/config    { approval }             operator
+//
+// Operator = a request from this machine (loopback), or one carrying
+// RELAY_OPERATOR_TOKEN (x-operator-token header or ?token=) when it is set.
+//
+// Messages carry `from`, a short hash of the client address, so the display can
+// rate-limit each address separately without seeing who sent what. The sender id
+// is chosen by the phone, so it is only used for the relay's own per-sender limit.
+
+import { createHash } from 'crypto'
+
+const MAX_TEXT = 140
+const RATE_WINDOW_MS = 30_000
+const RATE_MAX_PER_SENDER = 3
+const RATE_MIN_GAP_MS = 3_000
+const RATE_MAX_PER_IP = 30 // venue wifi: many phones behind one address
+const MAX_PENDING = 100
+const BACKLOG = 50 // replayed to a display that reconnects (Last-Event-ID / ?lastEventId=)
+const HEARTBEAT_MS = 15_000
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1'])
+
+// Only trust x-forwarded-for behind a proxy we know (Vercel); locally a phone could spoof it
+function clientIp(req, trustProxy) {
+  const forwarded = req.headers['x-forwarded-for']
+  if (trustProxy && typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim()
+  return req.socket?.remoteAddress ?? ''
+}
+
+function sendJson(res, status, body) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.setHeader('Cache-Control', 'no-store')
+  res.end(JSON.stringify(body))
+}
+
+async function readJson(req) {
+  // Vercel already parses JSON bodies
+  if (req.body && typeof req.body === 'object') return req.body
+
+  let raw = ''
+  for await (const chunk of req) {
+    raw += chunk
+    if (raw.length > 8192) throw new Error('Body too large')
+  }
+  return raw ? JSON.parse(raw) : {}
+}
+
+// Sliding window of timestamps per key
+function createLimiter(windowMs, max, minGapMs = 0) {
+  const hits = new Map()
+
+  return {
+    // returns 0 when allowed, otherwise ms until the next attempt can succeed
+    check(key, now) {
+      const list = (hits.get(key) ?? []).filter((t) => now - t < windowMs)
+      const last = list[list.length - 1]
+      let wait = 0
+      if (last !== undefined && now - last < minGapMs) wait = minGapMs - (now - last)
+      if (list.length >= max) wait = Math.max(wait, windowMs - (now - list[0]))
+      if (!wait) list.push(now)
+      hits.set(key, list)
+      return wait
+    },
+    prune(now) {
+      for (const [key, list] of hits) {
+        if (!list.length || now - list[list.length - 1] > windowMs) hits.delete(key)
+      }
+    },
+  }
+}
+
+export function createRelay({
+  operatorToken = process.env.RELAY_OPERATOR_TOKEN ?? '',
+  trustProxy = Boolean(process.env.VERCEL),
+} = {}) {
+  let nextId = 1
+  let approval = false
+  const pending = []
+  const backlog = []
+  const clients = new Set()
+
+  const perSender = createLimiter(RATE_WINDOW_MS, RATE_MAX_PER_SENDER, RATE_MIN_GAP_MS)
+  const perIp = createLimiter(RATE_WINDOW_MS, RATE_MAX_PER_IP)
+
+  function isOperator(req, url) {
+    if (operatorToken) {
+      const given = req.headers['x-operator-token'] ?? url.searchParams.get('token')
+      return given === operatorToken
+    }
+    return LOOPBACK.has(req.socket?.remoteAddress ?? '')
+  }
+
+  function send(res, event, data, id) {
+    if (id !== undefined) res.write(`id: ${id}\n`)
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  function broadcast(event, data, id) {
+    for (const res of clients) send(res, event, data, id)
+  }
+
+  const pendingView = () => pending.map(({ id, text, at }) => ({ id, text, at }))
+
+  function release(msg) {
+    backlog.push(msg)
+    if (backlog.length > BACKLOG) backlog.shift()
+    broadcast('message', { id: msg.id, text: msg.text, at: msg.at, from: msg.from }, msg.id)
+  }
+
+  async function submit(req, res) {
+    let body
+    try {
+      body = await readJson(req)
+    } catch {
+      return sendJson(res, 400, { error: 'Invalid request' })
+    }
+    if (!body || typeof body !== 'object') return sendJson(res, 400, { error: 'Invalid request' })
+
+    const text = String(body.text ?? '').replace(/\s+/g, ' ').trim()
+    const sender = String(body.sender ?? '').slice(0, 64)
+    if (!text) return sendJson(res, 400, { error: 'Type something first' })
+    if (text.length > MAX_TEXT) return sendJson(res, 400, { error: `Keep it under ${MAX_TEXT} characters` })
+
+    const now = Date.now()
+    const ip = clientIp(req, trustProxy)
+    const wait = Math.max(perIp.check(ip, now), perSender.check(`${ip}|${sender}`, now))
+    if (wait) {
+      res.setHeader('Retry-After', String(Math.ceil(wait / 1000)))
+      return sendJson(res, 429, { error: 'Slow down a little', retryAfterMs: wait })
+    }
+    perSender.prune(now)
+    perIp.prune(now)
+
+    const from = createHash('sha256').update(ip).digest('hex').slice(0, 12)
+    const msg = { id: nextId++, text, at: now, from }
+    if (!approval) {
+      release(msg)
+      return sendJson(res, 200, { status: 'sent' })
+    }
+
+    if (pending.length >= MAX_PENDING) return sendJson(res, 503, { error: 'Too many messages waiting, try again soon' })
+    pending.push(msg)
+    broadcast('pending', pendingView())
+    return sendJson(res, 200, { status: 'pending' })
+  }
+
+  function stream(req, res, url) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+    })
+    res.write('retry: 2000\n\n')
+
+    // reconnecting display: replay whatever it missed. A display that never saw an id
+    // (fresh page) gets no backlog -- it restores its own history
+    const given = req.headers['last-event-id'] ?? url.searchParams.get('lastEventId')
+    if (given) {
+      const lastId = Number(given) || 0
+      for (const msg of backlog) if (msg.id > lastId) send(res, 'message', msg, msg.id)
+    }
+    // carries the newest id, so even a display that has seen no message yet can resume from here
+    send(res, 'config', { approval }, backlog.length ? backlog[backlog.length - 1].id : 0)
+    send(res, 'pending', pendingView())
+
+    clients.add(res)
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      clients.delete(res)
+    })
+  }
+
+  async function moderate(req, res) {
+    const body = await readJson(req).catch(() => null)
+    if (!body || typeof body !== 'object') return sendJson(res, 400, { error: 'Invalid request' })
+    const i = pending.findIndex((m) => m.id === Number(body.id))
+    if (i < 0) return sendJson(res, 404, { error: 'No such message' })
+
+    const [msg] = pending.splice(i, 1)
+    if (body.approve) release(msg)
+    broadcast('pending', pendingView())
+    return sendJson(res, 200, { ok: true })
+  }
+
+  async function config(req, res) {
+    const body = await readJson(req).catch(() => null)
+    if (!body || typeof body !== 'object') return sendJson(res, 400, { error: 'Invalid request' })
+    if (typeof body.approval === 'boolean') approval = body.approval
+    broadcast('config', { approval })
+    return sendJson(res, 200, { approval })
+  }
+
+  // Resolves to false when the path is not a relay route (caller serves static files)
+  async function handle(req, res) {
+    const url = new URL(req.url ?? '/', 'http://relay.local')
+    const route = `${req.method} ${url.pathname}`
+
+    if (route === 'POST /api/submit') {
+      await submit(req, res)
+      return true
+    }
+
+    const operatorRoutes = {
+      'GET /api/stream': stream,
+      'POST /api/moderate': moderate,
+      'POST /api/config': config,
+    }
+    const handler = operatorRoutes[route]
+    if (!handler) return false
+    if (isOperator(req, url)) await handler(req, res, url)
+    else sendJson(res, 403, { error: 'Operator only' })
+    return true
+  }
+
+  return { handle }
+}
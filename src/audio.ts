@@ -0,0 +1,273 @@
+import type { SimDrive } from "./simulation";
+
+// --- Audio reactive: mic / audio file -> level, bands, beats -> SimDrive ---
+//
+// AnalyserNode 每帧读一次：时域算 RMS，频域分低 / 中 / 高三段，频谱通量做简单的 onset 检测。
+// 每个量都按自己最近的峰值自动归一化，安静的房间和很吵的音乐都能用。
+
+export type AudioSource = "mic" | "file";
+
+export type AudioInput = "level" | "bass" | "mid" | "treble" | "beat";
+
+export type AudioTarget = keyof SimDrive;
+
+export type AudioMapping = {
+  input: AudioInput | "off";
+  amount: number; // 满音量时加多少（× 原值），radius 0.15 = 最多撑大 15%
+};
+
+export type AudioSettings = {
+  enabled: boolean;
+  source: AudioSource;
+  sensitivity: number; // 归一化之后再乘（也让 onset 阈值变低）
+  mappings: Record<AudioTarget, AudioMapping>;
+};
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  enabled: false,
+  source: "mic",
+  sensitivity: 1,
+  mappings: {
+    spin: { input: "level", amount: 1 },
+    radius: { input: "bass", amount: 0.15 },
+    pulse: { input: "beat", amount: 0.35 },
+    drift: { input: "treble", amount: 1.5 },
+  },
+};
+
+export const AUDIO_INPUT_LABELS: Record<AudioInput | "off", string> = {
+  off: "Off",
+  level: "Level (RMS)",
+  bass: "Bass",
+  mid: "Mid",
+  treble: "Treble",
+  beat: "Beat",
+};
+
+export const AUDIO_TARGET_LABELS: Record<AudioTarget, string> = {
+  spin: "Orbit speed",
+  radius: "Ring breathing",
+  pulse: "Token pulse",
+  drift: "Veil drift",
+};
+
+// 每个 target 的 amount 滑块上限
+export const AUDIO_AMOUNT_MAX: Record<AudioTarget, number> = {
+  spin: 3,
+  radius: 0.5,
+  pulse: 1,
+  drift: 4,
+};
+
+export type AudioFeatures = Record<AudioInput, number>; // 都是 0..1
+
+export const SILENCE: AudioFeatures = { level: 0, bass: 0, mid: 0, treble: 0, beat: 0 };
+
+export type AudioStatus = "off" | "starting" | "live" | "suspended" | "no-file" | "error";
+
+// 频段（Hz）
+const BANDS: Record<"bass" | "mid" | "treble", [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+};
+
+const PEAK_DECAY_SEC = 6;   // 自动增益：峰值慢慢往下掉，音乐变小声后几秒内重新适应
+const PEAK_FLOOR = 0.02;    // 峰值下限，不然底噪也会被放大到满
+const FEATURE_SMOOTH_SEC = 0.06;
+const FLUX_HISTORY = 48;    // onset 阈值用最近这么多帧（60fps 约 0.8 s）
+const ONSET_K = 1.6;        // 阈值 = 平均 + k·标准差
+const ONSET_MIN_GAP_SEC = 0.12;
+const BEAT_DECAY_SEC = 0.18;
+
+// 把特征按 mapping 换成给 simulation 的乘数（1 = 不变）
+export function driveFromAudio(features: AudioFeatures, settings: AudioSettings): SimDrive {
+  const factor = (target: AudioTarget) => {
+    const m = settings.mappings[target];
+    return m.input === "off" ? 1 : 1 + m.amount * features[m.input];
+  };
+  return { spin: factor("spin"), radius: factor("radius"), pulse: factor("pulse"), drift: factor("drift") };
+}
+
+type AudioHandlers = {
+  onStatus: (status: AudioStatus, detail?: string) => void;
+};
+
+export function createAudioAnalyser(handlers: AudioHandlers) {
+  let ctx: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let input: AudioNode | null = null;
+  let stream: MediaStream | null = null;
+  let player: HTMLAudioElement | null = null;
+  let playerNode: MediaElementAudioSourceNode | null = null; // 一个 <audio> 只能建一次 source，留着重用
+  let fileName = "";
+  let status: AudioStatus = "off";
+
+  let timeData = new Float32Array(0);
+  let freqData = new Uint8Array(0);
+  let prevFreq = new Float32Array(0);
+  const fluxHistory: number[] = [];
+  const peaks: Record<Exclude<AudioInput, "beat">, number> = { level: PEAK_FLOOR, bass: PEAK_FLOOR, mid: PEAK_FLOOR, treble: PEAK_FLOOR };
+  const features: AudioFeatures = { ...SILENCE };
+  let lastOnset = -Infinity;
+  let lastT = 0;
+
+  function setStatus(next: AudioStatus, detail?: string) {
+    status = next;
+    handlers.onStatus(next, detail);
+  }
+
+  // 浏览器要求用户点过页面才能出声 / 收音；启动时还没点过就等第一次点击
+  function ensureContext() {
+    if (!ctx) {
+      ctx = new AudioContext();
+      analyser = ctx.createAnalyser();
+      analyser.fftSize = 2048;
+      analyser.smoothingTimeConstant = 0.5;
+      timeData = new Float32Array(analyser.fftSize);
+      freqData = new Uint8Array(analyser.frequencyBinCount);
+      prevFreq = new Float32Array(analyser.frequencyBinCount);
+    }
+    if (ctx.state === "suspended") {
+      ctx.resume().catch(() => {});
+      window.addEventListener("pointerdown", () => ctx?.resume().then(() => status === "suspended" && setStatus("live")), { once: true });
+    }
+    return ctx;
+  }
+
+  function live() {
+    setStatus(ctx?.state === "suspended" ? "suspended" : "live", fileName || undefined);
+  }
+
+  function disconnect() {
+    input?.disconnect();
+    input = null;
+    stream?.getTracks().forEach((t) => t.stop());
+    stream = null;
+    player?.pause();
+  }
+
+  async function startMic() {
+    disconnect();
+    fileName = "";
+    setStatus("starting");
+    try {
+      const audio = ensureContext();
+      // 关掉浏览器的降噪 / 自动增益，不然音乐的起伏都被压平了
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      input = audio.createMediaStreamSource(stream);
+      input.connect(analyser!); // 不接到扬声器，免得啸叫
+      live();
+    } catch (err) {
+      console.error("Audio input failed:", err);
+      setStatus("error", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // 本地音频文件循环播放（方便不用麦克风也能调）
+  async function startFile(file?: File) {
+    disconnect();
+    const audio = ensureContext();
+    if (file) {
+      if (player) URL.revokeObjectURL(player.src);
+      player = new Audio(URL.createObjectURL(file));
+      player.loop = true;
+      playerNode = audio.createMediaElementSource(player);
+      fileName = file.name;
+    }
+    if (!player || !playerNode) {
+      setStatus("no-file");
+      return;
+    }
+    setStatus("starting");
+    try {
+      input = playerNode;
+      input.connect(analyser!);
+      input.connect(audio.destination);
+      await player.play();
+      live();
+    } catch (err) {
+      console.error("Audio file failed:", err);
+      setStatus("error", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function stop() {
+    disconnect();
+    features.level = features.bass = features.mid = features.treble = features.beat = 0;
+    setStatus("off");
+  }
+
+  function bandLevel(from: number, to: number, binHz: number) {
+    const a = Math.max(1, Math.floor(from / binHz));
+    const b = Math.min(freqData.length - 1, Math.ceil(to / binHz));
+    let sum = 0;
+    for (let i = a; i <= b; i++) sum += freqData[i];
+    return sum / Math.max(1, b - a + 1) / 255;
+  }
+
+  // 每帧调用一次（now: performance.now()）
+  function read(now: number, sensitivity: number): AudioFeatures {
+    const dt = Math.min(0.1, Math.max(0, (now - lastT) / 1000));
+    lastT = now;
+    if (!analyser || !input || !ctx) return features;
+
+    analyser.getFloatTimeDomainData(timeData);
+    analyser.getByteFrequencyData(freqData);
+    const binHz = ctx.sampleRate / analyser.fftSize;
+
+    let sq = 0;
+    for (let i = 0; i < timeData.length; i++) sq += timeData[i] * timeData[i];
+    const raw: Record<Exclude<AudioInput, "beat">, number> = {
+      level: Math.sqrt(sq / timeData.length),
+      bass: bandLevel(...BANDS.bass, binHz),
+      mid: bandLevel(...BANDS.mid, binHz),
+      treble: bandLevel(...BANDS.treble, binHz),
+    };
+
+    const decay = Math.exp(-dt / PEAK_DECAY_SEC);
+    const k = 1 - Math.exp(-dt / FEATURE_SMOOTH_SEC);
+    for (const key of Object.keys(raw) as (keyof typeof raw)[]) {
+      peaks[key] = Math.max(raw[key], PEAK_FLOOR, peaks[key] * decay);
+      const v = Math.min(1, (raw[key] / peaks[key]) * sensitivity);
+      features[key] += (v - features[key]) * k;
+    }
+
+    // 频谱通量：只算变大的部分（新的声音进来），超过最近的 平均 + k·标准差 就算一拍
+    let flux = 0;
+    for (let i = 0; i < freqData.length; i++) {
+      const m = freqData[i] / 255;
+      flux += Math.max(0, m - prevFreq[i]);
+      prevFreq[i] = m;
+    }
+    flux /= freqData.length;
+
+    const n = fluxHistory.length;
+    const mean = n ? fluxHistory.reduce((s, v) => s + v, 0) / n : 0;
+    const std = n ? Math.sqrt(fluxHistory.reduce((s, v) => s + (v - mean) ** 2, 0) / n) : 0;
+    fluxHistory.push(flux);
+    if (fluxHistory.length > FLUX_HISTORY) fluxHistory.shift();
+
+    const threshold = mean + (ONSET_K / Math.max(0.1, sensitivity)) * std;
+    features.beat *= Math.exp(-dt / BEAT_DECAY_SEC);
+    if (n >= FLUX_HISTORY / 2 && flux > threshold && flux > 1e-3 && now - lastOnset > ONSET_MIN_GAP_SEC * 1000) {
+      lastOnset = now;
+      features.beat = 1;
+    }
+
+    return features;
+  }
+
+  return {
+    startMic,
+    startFile,
+    stop,
+    read,
+    status: () => status,
+    hasFile: () => !!player,
+  };
+}
+
+export type AudioAnalyser = ReturnType<typeof createAudioAnalyser>;
@@ -0,0 +1,115 @@
+// --- Capture: composite mirrored camera + effect canvases into one video / image ---
+//
+// 录像用 MediaRecorder 录一个离屏 canvas，每帧在 draw() 末尾调用 frame() 把
+// 摄像头（镜像 + cover，和 CSS 一致）和文字层（#fxgl、#fx，从下到上）画进去。
+
+export type CaptureBackground = "camera" | "transparent" | "chroma";
+
+const CHROMA_GREEN = "#00ff00";
+const CAPTURE_FPS = 30;
+
+// 按顺序试，第一个浏览器支持的就用（vp9/vp8 都能带 alpha 通道）
+const MIME_CANDIDATES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+function pickMimeType() {
+  return MIME_CANDIDATES.find((m) => MediaRecorder.isTypeSupported(m)) ?? "";
+}
+
+// layers: 从下到上叠的效果层，尺寸都和 layers[0] 一样（设备像素）
+export function createCapture(video: HTMLVideoElement, layers: HTMLCanvasElement[]) {
+  const fx = layers[0];
+  const out = document.createElement("canvas");
+  const octx = out.getContext("2d")!;
+
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+  let background: CaptureBackground = "camera";
+
+  // 把 video 按 object-fit: cover + scaleX(-1) 画满整个画布
+  function drawCamera(w: number, h: number) {
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    if (!vw || !vh) return;
+
+    const scale = Math.max(w / vw, h / vh);
+    const rw = vw * scale;
+    const rh = vh * scale;
+
+    octx.save();
+    octx.translate(w, 0);
+    octx.scale(-1, 1);
+    octx.filter = "contrast(1.05) saturate(1.05)"; // 和 #cam 的 CSS filter 一致
+    octx.drawImage(video, (w - rw) / 2, (h - rh) / 2, rw, rh);
+    octx.restore();
+  }
+
+  function composite(bg: CaptureBackground) {
+    // 跟效果层同样的设备像素尺寸
+    if (out.width !== fx.width || out.height !== fx.height) {
+      out.width = fx.width;
+      out.height = fx.height;
+    }
+    const w = out.width;
+    const h = out.height;
+
+    octx.clearRect(0, 0, w, h);
+    if (bg === "camera") {
+      drawCamera(w, h);
+    } else if (bg === "chroma") {
+      octx.fillStyle = CHROMA_GREEN;
+      octx.fillRect(0, 0, w, h);
+    }
+    for (const layer of layers) octx.drawImage(layer, 0, 0);
+  }
+
+  return {
+    recording: () => recorder !== null,
+
+    // 每帧调用（只在录像时真正合成）
+    frame() {
+      if (recorder) composite(background);
+    },
+
+    start(bg: CaptureBackground) {
+      if (recorder) return;
+      background = bg;
+      composite(bg);
+
+      const mimeType = pickMimeType();
+      recorder = new MediaRecorder(out.captureStream(CAPTURE_FPS), mimeType ? { mimeType } : {});
+      chunks = [];
+      recorder.addEventListener("dataavailable", (e) => {
+        if (e.data.size) chunks.push(e.data);
+      });
+      recorder.start(1000); // 每秒切一块，录很久也不会一次占太多内存
+    },
+
+    stop(): Promise<Blob> {
+      const r = recorder;
+      if (!r) return Promise.reject(new Error("Not recording"));
+      recorder = null;
+
+      return new Promise((resolve) => {
+        r.addEventListener(
+          "stop",
+          () => resolve(new Blob(chunks, { type: r.mimeType || "video/webm" })),
+          { once: true }
+        );
+        r.stop();
+      });
+    },
+
+    snapshot(bg: CaptureBackground): Promise<Blob> {
+      composite(bg);
+      return new Promise((resolve, reject) =>
+        out.toBlob((b) => (b ? resolve(b) : reject(new Error("Snapshot failed"))), "image/png")
+      );
+    },
+  };
+}
+
+export type Capture = ReturnType<typeof createCapture>;
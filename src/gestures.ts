@@ -0,0 +1,266 @@
+import type { Handedness, Landmark } from "./tracking";
+
+// --- Gesture recogniser over the 21-point MediaPipe hand landmarks ---
+//
+// 每种手势都有：进入阈值 / 退出阈值（hysteresis）+ 持续时间（debounce），
+// 避免在边界上来回抖动。坐标都是归一化视频坐标。
+
+export type GestureName = "pinch" | "openPalm" | "fist" | "swipeLeft" | "swipeRight";
+
+export type GestureEvent =
+  | { type: "pinchStart" | "pinchMove" | "pinchEnd"; hand: Handedness; x: number; y: number }
+  | { type: "fistStart" | "fistEnd"; hand: Handedness }
+  | { type: "openPalmHold"; hand: Handedness }
+  | { type: "swipe"; hand: Handedness; direction: "left" | "right" };
+
+export type GestureOptions = {
+  pinchOn: number;      // 拇指-食指距离 / 手掌大小，小于它开始 pinch
+  pinchOff: number;     // 大于它才结束 pinch
+  debounceMs: number;   // 姿势要保持这么久才算数
+  releaseMs: number;    // 松开也要保持这么久才算结束
+  openPalmHoldMs: number;
+  swipeWindowMs: number;
+  swipeDistance: number; // 窗口内手掌水平移动（归一化）
+  swipeCooldownMs: number;
+  mirror: boolean;      // 画面是镜像的：归一化 x 变大 = 屏幕上往左
+};
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  pinchOn: 0.28,
+  pinchOff: 0.42,
+  debounceMs: 80,
+  releaseMs: 120,
+  openPalmHoldMs: 1000,
+  swipeWindowMs: 260,
+  swipeDistance: 0.18,
+  swipeCooldownMs: 700,
+  mirror: true,
+};
+
+// landmark indices
+const WRIST = 0;
+const THUMB_IP = 3;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+const FINGERS = [
+  { mcp: 5, pip: 6, tip: 8 },
+  { mcp: 9, pip: 10, tip: 12 },
+  { mcp: 13, pip: 14, tip: 16 },
+  { mcp: 17, pip: 18, tip: 20 },
+];
+
+type Latch = {
+  active: boolean;
+  pendingSince: number | null;
+};
+
+type HandState = {
+  pinch: Latch;
+  openPalm: Latch;
+  fist: Latch;
+  palmHoldFired: boolean;
+  openSince: number;
+  history: { t: number; x: number; y: number }[];
+  lastSwipe: number;
+};
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function createLatch(): Latch {
+  return { active: false, pendingSince: null };
+}
+
+// on: 进入条件（严格），off: 退出条件（宽松）
+function updateLatch(
+  l: Latch,
+  on: boolean,
+  off: boolean,
+  now: number,
+  opts: GestureOptions
+): "start" | "end" | null {
+  const want = l.active ? off : on;
+  if (!want) {
+    l.pendingSince = null;
+    return null;
+  }
+
+  l.pendingSince ??= now;
+  const wait = l.active ? opts.releaseMs : opts.debounceMs;
+  if (now - l.pendingSince < wait) return null;
+
+  l.pendingSince = null;
+  l.active = !l.active;
+  return l.active ? "start" : "end";
+}
+
+// 手指伸直程度：指尖到手腕 / 第二关节到手腕
+function extension(lm: Landmark[], f: { pip: number; tip: number }) {
+  return dist(lm[f.tip], lm[WRIST]) / (dist(lm[f.pip], lm[WRIST]) + 1e-6);
+}
+
+function createHandState(): HandState {
+  return {
+    pinch: createLatch(),
+    openPalm: createLatch(),
+    fist: createLatch(),
+    palmHoldFired: false,
+    openSince: 0,
+    history: [],
+    lastSwipe: -Infinity,
+  };
+}
+
+export function createGestureRecognizer(options: Partial<GestureOptions> = {}) {
+  const opts = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  const hands = new Map<Handedness, HandState>();
+
+  function updateHand(
+    hand: Handedness,
+    lm: Landmark[],
+    state: HandState,
+    now: number,
+    out: GestureEvent[]
+  ) {
+    const palm = dist(lm[WRIST], lm[MIDDLE_MCP]) + 1e-6;
+
+    // --- pinch ---
+    const pinchRatio = dist(lm[THUMB_TIP], lm[8]) / palm;
+    const pinchX = (lm[THUMB_TIP].x + lm[8].x) / 2;
+    const pinchY = (lm[THUMB_TIP].y + lm[8].y) / 2;
+    const pinch = updateLatch(
+      state.pinch,
+      pinchRatio < opts.pinchOn,
+      pinchRatio > opts.pinchOff,
+      now,
+      opts
+    );
+    if (pinch === "start") out.push({ type: "pinchStart", hand, x: pinchX, y: pinchY });
+    else if (pinch === "end") out.push({ type: "pinchEnd", hand, x: pinchX, y: pinchY });
+    else if (state.pinch.active) out.push({ type: "pinchMove", hand, x: pinchX, y: pinchY });
+
+    // --- open palm / fist ---
+    const ext = FINGERS.map((f) => extension(lm, f));
+    const thumbOut =
+      dist(lm[THUMB_TIP], lm[PINKY_MCP]) > dist(lm[THUMB_IP], lm[PINKY_MCP]) * 1.05 &&
+      dist(lm[THUMB_TIP], lm[INDEX_MCP]) > palm * 0.45;
+
+    const open = updateLatch(
+      state.openPalm,
+      ext.every((e) => e > 1.25) && thumbOut && !state.pinch.active,
+      ext.some((e) => e < 1.1),
+      now,
+      opts
+    );
+    if (open === "start") {
+      state.openSince = now;
+      state.palmHoldFired = false;
+    }
+    if (state.openPalm.active && !state.palmHoldFired && now - state.openSince >= opts.openPalmHoldMs) {
+      state.palmHoldFired = true;
+      out.push({ type: "openPalmHold", hand });
+    }
+
+    const fist = updateLatch(
+      state.fist,
+      ext.every((e) => e < 0.9),
+      ext.filter((e) => e > 1.1).length >= 2,
+      now,
+      opts
+    );
+    if (fist === "start") out.push({ type: "fistStart", hand });
+    else if (fist === "end") out.push({ type: "fistEnd", hand });
+
+    // --- horizontal swipe (palm centre velocity) ---
+    const cx = (lm[WRIST].x + lm[MIDDLE_MCP].x) / 2;
+    const cy = (lm[WRIST].y + lm[MIDDLE_MCP].y) / 2;
+    state.history.push({ t: now, x: cx, y: cy });
+    while (state.history.length && now - state.history[0].t > opts.swipeWindowMs) {
+      state.history.shift();
+    }
+
+    const first = state.history[0];
+    const dx = cx - first.x;
+    const dy = cy - first.y;
+    if (
+      !state.pinch.active &&
+      !state.fist.active &&
+      Math.abs(dx) > opts.swipeDistance &&
+      Math.abs(dy) < Math.abs(dx) * 0.6 &&
+      now - state.lastSwipe > opts.swipeCooldownMs
+    ) {
+      const towardsScreenRight = opts.mirror ? dx < 0 : dx > 0;
+      out.push({ type: "swipe", hand, direction: towardsScreenRight ? "right" : "left" });
+      state.lastSwipe = now;
+      state.history.length = 0;
+    }
+  }
+
+  // 手从画面里消失：把还在进行中的手势结束掉
+  function dropHand(hand: Handedness, state: HandState, out: GestureEvent[]) {
+    if (state.pinch.active) out.push({ type: "pinchEnd", hand, x: NaN, y: NaN });
+    if (state.fist.active) out.push({ type: "fistEnd", hand });
+    hands.delete(hand);
+  }
+
+  return {
+    options: opts,
+    update(frame: { hands: Landmark[][]; handedness: Handedness[] }, now: number) {
+      const out: GestureEvent[] = [];
+      const seen = new Set<Handedness>();
+
+      frame.hands.forEach((lm, i) => {
+        const hand = frame.handedness[i] ?? (i === 0 ? "Right" : "Left");
+        if (seen.has(hand) || lm.length < 21) return;
+        seen.add(hand);
+
+        let state = hands.get(hand);
+        if (!state) {
+          state = createHandState();
+          hands.set(hand, state);
+        }
+        updateHand(hand, lm, state, now, out);
+      });
+
+      for (const [hand, state] of hands) {
+        if (!seen.has(hand)) dropHand(hand, state, out);
+      }
+      return out;
+    },
+  };
+}
+
+export type GestureRecognizer = ReturnType<typeof createGestureRecognizer>;
+
+// --- Gesture -> action mapping (configurable from the settings panel) ---
+
+export type GestureAction = "none" | "grab" | "clear" | "freeze" | "speedUp" | "speedDown" | "talk";
+
+export type GestureBindings = Record<GestureName, GestureAction>;
+
+export const GESTURE_LABELS: Record<GestureName, string> = {
+  pinch: "Pinch",
+  openPalm: "Open palm (hold 1s)",
+  fist: "Fist",
+  swipeLeft: "Swipe left",
+  swipeRight: "Swipe right",
+};
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  none: "Nothing",
+  grab: "Grab & drag",
+  clear: "Clear all",
+  freeze: "Freeze orbit",
+  speedUp: "Speed up",
+  speedDown: "Slow down",
+  talk: "Push to talk",
+};
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  pinch: "grab",
+  openPalm: "clear",
+  fist: "freeze",
+  swipeLeft: "speedDown",
+  swipeRight: "speedUp",
+};
@@ -0,0 +1,57 @@
+// --- Orbit layouts: where each orbit token sits around the head ---
+//
+// 纯几何，没有状态；simulation.ts 按当前布局（和过渡前的布局）各摆一次再插值。
+
+export type LayoutMode = "lanes" | "spiral" | "sphere" | "ribbon" | "crown";
+
+export type LayoutSettings = {
+  mode: LayoutMode;
+  transitionSec: number;  // 切换布局时的过渡时间
+  groupThoughts: boolean; // 每条 thought 整句一起摆（按顺序、按字宽），只影响之后提交的
+};
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  mode: "lanes",
+  transitionSec: 1.2,
+  groupThoughts: false,
+};
+
+//   lanes  原来的同心圆环（每圈 laneCapacity 个）
+//   spiral 阿基米德螺线，新字接在最外面，越写越大
+//   sphere 斐波那契球面，把头整个包住
+//   ribbon 一条环，字按原文顺序排（一句话可以读出来）
+//   crown  头顶上的一圈，满了往上叠
+export const LAYOUT_LABELS: Record<LayoutMode, string> = {
+  lanes: "Rings",
+  spiral: "Spiral",
+  sphere: "Sphere",
+  ribbon: "Ribbon",
+  crown: "Crown",
+};
+
+export const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+// 阿基米德螺线 r = r0 + b·φ 上，从起点走 arc px 时的 φ（弧长 ≈ r0·φ + b·φ²/2）
+export function spiralAngle(arc: number, r0: number, b: number) {
+  if (b < 1e-6) return arc / Math.max(1e-6, r0);
+  return (-r0 + Math.sqrt(r0 * r0 + 2 * b * arc)) / b;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// 单位球面上第 i 个（共 n 个）点：y 从上到下均匀，绕竖轴转黄金角
+// n 可以是小数（数量平滑变化时点也平滑移动）
+export function fibonacciPoint(i: number, n: number) {
+  const y = 1 - (2 * (i + 0.5)) / Math.max(1, n);
+  const yc = Math.max(-1, Math.min(1, y));
+  return { y: yc, r: Math.sqrt(1 - yc * yc), theta: i * GOLDEN_ANGLE };
+}
+
+// ribbon 排字用的估计宽度（× 字号）：中日韩 / emoji 一个字一格，其他大约半格，再加一点字间距
+const WIDE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Extended_Pictographic}]/u;
+
+export function tokenSpanEm(token: string) {
+  let w = 0;
+  for (const ch of token) w += WIDE.test(ch) ? 1 : 0.6;
+  return w + 0.3;
+}
@@ -0,0 +1,58 @@
+// --- Token lifetimes: fade in on birth, age slowly, dissolve on expiry / eviction ---
+
+export type FadeCurve = "linear" | "easeIn" | "easeOut";
+
+export type LifetimeSettings = {
+  infinite: boolean;  // 永不过期（只会被 enforceCaps 挤掉）
+  seconds: number;    // 寿命
+  fadeInSec: number;
+  fadeOutSec: number; // 过期 / 被挤掉后的消散时间
+  curve: FadeCurve;   // 变老（变暗变小）的速度曲线
+};
+
+export const DEFAULT_LIFETIME: LifetimeSettings = {
+  infinite: true,
+  seconds: 90,
+  fadeInSec: 0.6,
+  fadeOutSec: 1.6,
+  curve: "easeIn",
+};
+
+// 到寿命终点时最多暗多少 / 小多少
+const AGE_DIM = 0.45;
+const AGE_SHRINK = 0.25;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+function applyCurve(t: number, curve: FadeCurve) {
+  if (curve === "easeIn") return t * t;
+  if (curve === "easeOut") return 1 - (1 - t) * (1 - t);
+  return t;
+}
+
+// 开始消散的年龄：自然过期和被挤掉（evictedAt）取先到的那个
+export function deathAge(evictedAt: number | null, life: LifetimeSettings) {
+  const natural = life.infinite ? Infinity : life.seconds;
+  return Math.min(evictedAt ?? Infinity, natural);
+}
+
+export function isGone(age: number, evictedAt: number | null, life: LifetimeSettings) {
+  return age >= deathAge(evictedAt, life) + life.fadeOutSec;
+}
+
+// alpha / scale 的乘数，dissolve: 0..1 消散进度（用来让字往外飘）
+export function lifeFactors(age: number, evictedAt: number | null, life: LifetimeSettings) {
+  const born = smoothstep(clamp01(age / Math.max(0.001, life.fadeInSec)));
+
+  const aging = life.infinite ? 0 : applyCurve(clamp01(age / life.seconds), life.curve);
+
+  const dieAt = deathAge(evictedAt, life);
+  const dissolve = age > dieAt ? clamp01((age - dieAt) / Math.max(0.001, life.fadeOutSec)) : 0;
+
+  return {
+    alpha: born * (1 - AGE_DIM * aging) * (1 - dissolve),
+    scale: (0.6 + 0.4 * born) * (1 - AGE_SHRINK * aging) * (1 + 0.3 * dissolve),
+    dissolve,
+  };
+}
@@ -1,12 +1,181 @@
-let headMaskPts: { x: number; y: number }[] | null = null;
-
 const FACE_OVAL = [
   10, 338, 297, 332, 284, 251, 389, 356, 454, 323,
   361, 288, 397, 365, 379, 378, 400, 377, 152, 148,
   176, 149, 150, 136, 172, 58, 132, 93, 234, 127,
   162, 21, 54, 103, 67, 109,
 ];
-import { FilesetResolver, FaceLandmarker, HandLandmarker } from "@mediapipe/tasks-vision";
+import type { FaceLandmarker } from "@mediapipe/tasks-vision";
+import {
+  createLoadStages,
+  createSegmentStage,
+  getStage,
+  loadSegmenter,
+  loadVision,
+  resolveVisionConfig,
+  type Vision,
+  type VisionConfig,
+} from "./vision";
+import {
+  createMediaPipeSource,
+  createRecorder,
+  createReplaySource,
+  downloadSession,
+  fetchSession,
+  parseSession,
+  type Handedness,
+  type TrackingFrame,
+  type TrackingRecorder,
+  type TrackingSession,
+} from "./tracking";
+import {
+  clearCloud,
+  createCloud,
+  enqueueTokens,
+  headRadii,
+  recolorEntry,
+  removeEntry,
+  stepSimulation,
+  unpinParticle,
+  DEFAULT_RING,
+  DEFAULT_VEIL,
+  NO_DRIVE,
+  ORBIT,
+  type Brush,
+  type BrushForce,
+  type HeadPose,
+  type Particle,
+  type ParticleCloud,
+  type Point,
+  type RingSettings,
+  type SimLayer,
+  type SimParticle,
+  type VeilSettings,
+} from "./simulation";
+import { anglesFromFaceMatrix, NO_ROTATION, type HeadAngles } from "./pose3d";
+import {
+  DEFAULT_TRACKING_TUNING,
+  createOneEuro,
+  createOneEuro2D,
+  createOneEuroAngle,
+  type OneEuro,
+  type OneEuroAngle,
+  type TrackingTuning,
+} from "./smoothing";
+import { createCanvasRenderer, type Renderer } from "./render";
+import { createWebGLRenderer } from "./renderGL";
+import {
+  DEFAULT_SEGMENTATION,
+  createSegmentationOccluder,
+  type OcclusionMode,
+  type Occluder,
+  type SegmentationOccluder,
+  type SegmentationSettings,
+} from "./occlusion";
+import { DEFAULT_LAYOUT, LAYOUT_LABELS, type LayoutMode, type LayoutSettings } from "./layout";
+import {
+  BUILTIN_PHYSICS_PRESETS,
+  TUNING_GROUPS,
+  TUNING_SPECS,
+  applyPhysics,
+  defaultPhysics,
+  fetchPhysicsPresets,
+  isPhysicsPreset,
+  parsePhysicsPresets,
+  type Physics,
+  type PhysicsPreset,
+  type TuningGroup,
+  type TuningSpec,
+} from "./tuning";
+import {
+  DEFAULT_TOKENIZE,
+  TOKEN_LOCALES,
+  TOKEN_MODE_LABELS,
+  tokenize,
+  type TokenMode,
+  type TokenizeSettings,
+} from "./tokenize";
+import {
+  ACTION_LABELS,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_LABELS,
+  createGestureRecognizer,
+  type GestureAction,
+  type GestureBindings,
+  type GestureEvent,
+  type GestureName,
+} from "./gestures";
+import {
+  isPersistenceEnabled,
+  loadHistory,
+  loadSettings,
+  saveHistory,
+  saveSettings,
+  setPersistenceEnabled,
+  type SettingChoices,
+  type SettingItems,
+  type StoredEntry,
+} from "./persistence";
+import { createCapture, type CaptureBackground } from "./capture";
+import { downloadBlob, timestampForFilename } from "./download";
+import { DEFAULT_LIFETIME, type FadeCurve, type LifetimeSettings } from "./lifetime";
+import {
+  DEFAULT_MODERATION,
+  createModerator,
+  fetchModerationRules,
+  parseModerationRules,
+  type ModerationAction,
+  type ModerationRules,
+} from "./moderation";
+import {
+  DEFAULT_REMOTE,
+  createRemoteInbox,
+  type RemoteMessage,
+  type RemoteSettings,
+  type RemoteStatus,
+} from "./remote";
+import {
+  DEFAULT_SPEECH,
+  SPEECH_ENGINES,
+  SPEECH_LANGUAGES,
+  resolveSpeechLang,
+  type SpeechMode,
+  type SpeechSettings,
+  type SpeechState,
+} from "./speech";
+import {
+  AUDIO_AMOUNT_MAX,
+  AUDIO_INPUT_LABELS,
+  AUDIO_TARGET_LABELS,
+  DEFAULT_AUDIO,
+  createAudioAnalyser,
+  driveFromAudio,
+  type AudioInput,
+  type AudioSettings,
+  type AudioSource,
+  type AudioStatus,
+  type AudioTarget,
+} from "./audio";
+import {
+  DEFAULT_SHOW,
+  createShowPlayer,
+  fetchShowScript,
+  formatShowTime,
+  parseShowScript,
+  type ShowKey,
+  type ShowSettings,
+} from "./show";
+import {
+  DEFAULT_THEME,
+  THEME_FONTS,
+  THEME_LAYERS,
+  THEME_PRESETS,
+  loadThemeFonts,
+  parseTheme,
+  themeColor,
+  type LayerStyle,
+  type Theme,
+  type ThemeFill,
+} from "./theme";
 import "./style.css";
 
 type Settings = {
@@ -14,18 +183,137 @@ type Settings = {
   speedMultiplier: number;
   colorMode: "global" | "random";
   globalColor: string;
+  maxFaces: number;
+  targetMode: "nearest" | "point";
+  gestureBindings: GestureBindings;
+  hands: Record<Handedness, HandBrush>;
+  brushTips: keyof typeof BRUSH_TIPS;
+  captureBackground: CaptureBackground;
+  lifetime: LifetimeSettings;
+  renderer: RendererKind;
+  ring: RingSettings;
+  veil: VeilSettings;
+  layout: LayoutSettings;
+  occlusion: OcclusionMode;
+  segmentation: SegmentationSettings;
+  tracking: TrackingTuning;
+  remote: RemoteSettings;
+  moderation: ModerationRules;
+  speech: SpeechSettings;
+  audio: AudioSettings;
+  show: ShowSettings;
+  tokenize: TokenizeSettings;
+  theme: Theme;
+  physics: Physics;
+  physicsPresets: PhysicsPreset[]; // 自己存的（内置的在 tuning.ts）
+};
+
+type RendererKind = Renderer["kind"];
+
+type HandBrush = { force: BrushForce; strength: number };
+
+// 每只手哪些指尖当笔刷（landmark index）
+const BRUSH_TIPS = {
+  index: [8],
+  indexMiddle: [8, 12],
+  all: [4, 8, 12, 16, 20],
 };
 
-const settings: Settings = {
+const DEFAULT_SETTINGS: Settings = {
   fontSize: 28,
   speedMultiplier: 0.9,
   colorMode: "global",
   globalColor: "#ffffff",
+  maxFaces: 2,
+  targetMode: "nearest",
+  gestureBindings: { ...DEFAULT_GESTURE_BINDINGS },
+  hands: {
+    Left: { force: "repel", strength: 1 },
+    Right: { force: "repel", strength: 1 },
+  },
+  brushTips: "index",
+  captureBackground: "camera",
+  lifetime: { ...DEFAULT_LIFETIME },
+  renderer: "webgl",
+  ring: { ...DEFAULT_RING },
+  veil: { ...DEFAULT_VEIL },
+  layout: { ...DEFAULT_LAYOUT },
+  occlusion: "landmarks",
+  segmentation: { ...DEFAULT_SEGMENTATION },
+  tracking: structuredClone(DEFAULT_TRACKING_TUNING),
+  remote: { ...DEFAULT_REMOTE },
+  moderation: structuredClone(DEFAULT_MODERATION),
+  speech: { ...DEFAULT_SPEECH },
+  audio: structuredClone(DEFAULT_AUDIO),
+  show: { ...DEFAULT_SHOW },
+  tokenize: { ...DEFAULT_TOKENIZE },
+  theme: structuredClone(DEFAULT_THEME),
+  physics: defaultPhysics(),
+  physicsPresets: [],
+};
+
+// 圆环样式预设（面板里的下拉框；手动拖滑块后显示为 Custom）
+const RING_PRESETS: Record<string, Omit<RingSettings, "followHead">> = {
+  classic: { inclination: 67, lift: 0 },
+  saturn: { inclination: 20, lift: 0 },
+  halo: { inclination: 10, lift: 0.55 },
+};
+
+// 每种渲染器能扛住的粒子预算（Canvas 2D 每个字都要 save/font/fillText，很贵）
+const RENDER_BUDGETS: Record<RendererKind, { maxParticles: number; veilMaxCopies: number }> = {
+  canvas: { maxParticles: 600, veilMaxCopies: 8 },
+  webgl: { maxParticles: 6000, veilMaxCopies: 24 },
+};
+
+// 存下来的枚举字段只接受这些值（旧版本 / 手改的 localStorage 不会让界面进入不存在的模式）
+const SETTING_CHOICES: SettingChoices = {
+  colorMode: ["global", "random"] satisfies Settings["colorMode"][],
+  targetMode: ["nearest", "point"] satisfies Settings["targetMode"][],
+  "gestureBindings.*": Object.keys(ACTION_LABELS),
+  "hands.*.force": ["repel", "attract", "swirl"] satisfies BrushForce[],
+  brushTips: Object.keys(BRUSH_TIPS),
+  captureBackground: ["camera", "transparent", "chroma"] satisfies CaptureBackground[],
+  "lifetime.curve": ["linear", "easeIn", "easeOut"] satisfies FadeCurve[],
+  renderer: ["canvas", "webgl"] satisfies RendererKind[],
+  "layout.mode": Object.keys(LAYOUT_LABELS),
+  occlusion: ["landmarks", "segmentation"] satisfies OcclusionMode[],
+  "moderation.action": ["reject", "mask", "hold"] satisfies ModerationAction[],
+  "speech.engine": Object.keys(SPEECH_ENGINES),
+  "speech.mode": ["continuous", "pushToTalk"] satisfies SpeechMode[],
+  "tokenize.mode": Object.keys(TOKEN_MODE_LABELS),
+  "theme.fill": ["entry", "palette", "gradient"] satisfies ThemeFill[],
+  "audio.source": ["mic", "file"] satisfies AudioSource[],
+  "audio.mappings.*.input": Object.keys(AUDIO_INPUT_LABELS),
+};
+
+// 默认是空数组的字段：逐项检查（旧版本 / 手改的存档里的坏项会让 compileTerm 等直接抛错）
+const isString = (v: unknown) => typeof v === "string";
+const SETTING_ITEMS: SettingItems = {
+  "moderation.blocklist": isString,
+  "moderation.equivalents": (v) => Array.isArray(v) && v.length === 2 && v.every(isString),
+  "theme.palette": isString,
+  physicsPresets: isPhysicsPreset,
 };
 
+const settings: Settings = loadSettings(DEFAULT_SETTINGS, SETTING_CHOICES, SETTING_ITEMS);
+
+// 演出脚本第一次改设置之前操作员自己的那份；存盘时盖回去，脚本的 speed / theme / physics 不会写进存档
+let operatorSettings: ShowSnapshot | null = null;
+
+function persistSettings() {
+  saveSettings(operatorSettings ? { ...settings, ...structuredClone(operatorSettings) } : settings);
+}
+
 const video = document.querySelector<HTMLVideoElement>("#cam")!;
 const canvas = document.querySelector<HTMLCanvasElement>("#fx")!;
 const ctx = canvas.getContext("2d")!;
+const glCanvas = document.querySelector<HTMLCanvasElement>("#fxgl")!;
+const capture = createCapture(video, [glCanvas, canvas]);
+
+// WebGL 不可用时 glRenderer 为 null，只剩 Canvas 2D
+const canvasRenderer = createCanvasRenderer(ctx);
+const glRenderer = createWebGLRenderer(glCanvas);
+let renderer: Renderer = canvasRenderer;
 
 const gear = document.querySelector<HTMLButtonElement>("#gear")!;
 const panel = document.querySelector<HTMLDivElement>("#panel")!;
@@ -34,11 +322,126 @@ const speedSlider = document.querySelector<HTMLInputElement>("#speed")!;
 const fontSizeValue = document.querySelector<HTMLSpanElement>("#fontSizeValue")!;
 const speedValue = document.querySelector<HTMLSpanElement>("#speedValue")!;
 const thoughtInput = document.querySelector<HTMLInputElement>("#thought")!;
+const themePresetSelect = document.querySelector<HTMLSelectElement>("#themePreset")!;
+const themeFontSelect = document.querySelector<HTMLSelectElement>("#themeFont")!;
+const themeWeightSlider = document.querySelector<HTMLInputElement>("#themeWeight")!;
+const themeWeightValue = document.querySelector<HTMLSpanElement>("#themeWeightValue")!;
+const themeFillSelect = document.querySelector<HTMLSelectElement>("#themeFill")!;
+const themePaletteInput = document.querySelector<HTMLInputElement>("#themePalette")!;
+const themeLayerSelect = document.querySelector<HTMLSelectElement>("#themeLayer")!;
+const themeLayerControls = document.querySelector<HTMLDivElement>("#themeLayerControls")!;
+const themeStrokeColor = document.querySelector<HTMLInputElement>("#themeStrokeColor")!;
+const themeGlowColor = document.querySelector<HTMLInputElement>("#themeGlowColor")!;
+const themeGlowFromText = document.querySelector<HTMLInputElement>("#themeGlowFromText")!;
+const themeExportBtn = document.querySelector<HTMLButtonElement>("#themeExport")!;
+const themeImportInput = document.querySelector<HTMLInputElement>("#themeImport")!;
+const tokenModeSelect = document.querySelector<HTMLSelectElement>("#tokenMode")!;
+const tokenLocaleSelect = document.querySelector<HTMLSelectElement>("#tokenLocale")!;
+const phraseSizeRow = document.querySelector<HTMLDivElement>("#phraseSizeRow")!;
+const phraseSizeSlider = document.querySelector<HTMLInputElement>("#phraseSize")!;
+const phraseSizeValue = document.querySelector<HTMLSpanElement>("#phraseSizeValue")!;
 const clearBtn = document.querySelector<HTMLButtonElement>("#clear")!;
 const modeGlobal = document.querySelector<HTMLInputElement>("#modeGlobal")!;
 const modeRandom = document.querySelector<HTMLInputElement>("#modeRandom")!;
 const globalColorRow = document.querySelector<HTMLDivElement>("#globalColorRow")!;
 const colorPicker = document.querySelector<HTMLInputElement>("#colorPicker")!;
+const maxFacesSlider = document.querySelector<HTMLInputElement>("#maxFaces")!;
+const maxFacesValue = document.querySelector<HTMLSpanElement>("#maxFacesValue")!;
+const targetNearest = document.querySelector<HTMLInputElement>("#targetNearest")!;
+const targetPoint = document.querySelector<HTMLInputElement>("#targetPoint")!;
+const recordTrackingBtn = document.querySelector<HTMLButtonElement>("#recordTracking")!;
+const trackingStatus = document.querySelector<HTMLSpanElement>("#trackingStatus")!;
+const replayFileInput = document.querySelector<HTMLInputElement>("#replayFile")!;
+const gestureBindingsBox = document.querySelector<HTMLDivElement>("#gestureBindings")!;
+const brushTipsSelect = document.querySelector<HTMLSelectElement>("#brushTips")!;
+const persistToggle = document.querySelector<HTMLInputElement>("#persist")!;
+const historyList = document.querySelector<HTMLDivElement>("#historyList")!;
+const historyEmpty = document.querySelector<HTMLDivElement>("#historyEmpty")!;
+const recordBtn = document.querySelector<HTMLButtonElement>("#record")!;
+const snapshotBtn = document.querySelector<HTMLButtonElement>("#snapshot")!;
+const captureBgSelect = document.querySelector<HTMLSelectElement>("#captureBackground")!;
+const lifeInfinite = document.querySelector<HTMLInputElement>("#lifeInfinite")!;
+const lifeSlider = document.querySelector<HTMLInputElement>("#lifeSeconds")!;
+const lifeValue = document.querySelector<HTMLSpanElement>("#lifeSecondsValue")!;
+const lifeRow = document.querySelector<HTMLDivElement>("#lifeSecondsRow")!;
+const fadeOutSlider = document.querySelector<HTMLInputElement>("#fadeOut")!;
+const fadeOutValue = document.querySelector<HTMLSpanElement>("#fadeOutValue")!;
+const fadeCurveSelect = document.querySelector<HTMLSelectElement>("#fadeCurve")!;
+const rendererSelect = document.querySelector<HTMLSelectElement>("#renderer")!;
+const ringStyleSelect = document.querySelector<HTMLSelectElement>("#ringStyle")!;
+const layoutModeSelect = document.querySelector<HTMLSelectElement>("#layoutMode")!;
+const layoutTransitionSlider = document.querySelector<HTMLInputElement>("#layoutTransition")!;
+const layoutTransitionValue = document.querySelector<HTMLSpanElement>("#layoutTransitionValue")!;
+const groupThoughtsToggle = document.querySelector<HTMLInputElement>("#groupThoughts")!;
+const veilCoverageSlider = document.querySelector<HTMLInputElement>("#veilCoverage")!;
+const veilCoverageValue = document.querySelector<HTMLSpanElement>("#veilCoverageValue")!;
+const veilRevealToggle = document.querySelector<HTMLInputElement>("#veilReveal")!;
+const veilRevealRow = document.querySelector<HTMLDivElement>("#veilRevealRow")!;
+const veilRevealRadiusSlider = document.querySelector<HTMLInputElement>("#veilRevealRadius")!;
+const veilRevealRadiusValue = document.querySelector<HTMLSpanElement>("#veilRevealRadiusValue")!;
+const ringTiltSlider = document.querySelector<HTMLInputElement>("#ringTilt")!;
+const ringTiltValue = document.querySelector<HTMLSpanElement>("#ringTiltValue")!;
+const ringLiftSlider = document.querySelector<HTMLInputElement>("#ringLift")!;
+const ringLiftValue = document.querySelector<HTMLSpanElement>("#ringLiftValue")!;
+const ringFollowToggle = document.querySelector<HTMLInputElement>("#ringFollow")!;
+const occlusionSelect = document.querySelector<HTMLSelectElement>("#occlusionMode")!;
+const occlusionStatus = document.querySelector<HTMLSpanElement>("#occlusionStatus")!;
+const segmentOptions = document.querySelector<HTMLDivElement>("#segmentOptions")!;
+const segSmoothingSlider = document.querySelector<HTMLInputElement>("#segSmoothing")!;
+const segSmoothingValue = document.querySelector<HTMLSpanElement>("#segSmoothingValue")!;
+const segFeatherSlider = document.querySelector<HTMLInputElement>("#segFeather")!;
+const segFeatherValue = document.querySelector<HTMLSpanElement>("#segFeatherValue")!;
+const trackingTuningBox = document.querySelector<HTMLDivElement>("#trackingTuning")!;
+const physicsStatus = document.querySelector<HTMLSpanElement>("#physicsStatus")!;
+const physicsPresetSelect = document.querySelector<HTMLSelectElement>("#physicsPreset")!;
+const physicsTuningBox = document.querySelector<HTMLDivElement>("#physicsTuning")!;
+const physicsSaveBtn = document.querySelector<HTMLButtonElement>("#physicsSave")!;
+const physicsDeleteBtn = document.querySelector<HTMLButtonElement>("#physicsDelete")!;
+const physicsResetBtn = document.querySelector<HTMLButtonElement>("#physicsReset")!;
+const physicsExportBtn = document.querySelector<HTMLButtonElement>("#physicsExport")!;
+const physicsImportInput = document.querySelector<HTMLInputElement>("#physicsImport")!;
+const remoteEnabled = document.querySelector<HTMLInputElement>("#remoteEnabled")!;
+const remoteStatus = document.querySelector<HTMLSpanElement>("#remoteStatus")!;
+const remoteUrlInput = document.querySelector<HTMLInputElement>("#remoteUrl")!;
+const remoteTokenInput = document.querySelector<HTMLInputElement>("#remoteToken")!;
+const remoteApproval = document.querySelector<HTMLInputElement>("#remoteApproval")!;
+const remotePaceSlider = document.querySelector<HTMLInputElement>("#remotePace")!;
+const remotePaceValue = document.querySelector<HTMLSpanElement>("#remotePaceValue")!;
+const remotePendingList = document.querySelector<HTMLDivElement>("#remotePending")!;
+const moderationEnabled = document.querySelector<HTMLInputElement>("#moderationEnabled")!;
+const moderationActionSelect = document.querySelector<HTMLSelectElement>("#moderationAction")!;
+const moderationBlocklist = document.querySelector<HTMLTextAreaElement>("#moderationBlocklist")!;
+const moderationFileInput = document.querySelector<HTMLInputElement>("#moderationFile")!;
+const moderationStatus = document.querySelector<HTMLSpanElement>("#moderationStatus")!;
+const moderationHeldList = document.querySelector<HTMLDivElement>("#moderationHeld")!;
+const speechEnabled = document.querySelector<HTMLInputElement>("#speechEnabled")!;
+const speechStatus = document.querySelector<HTMLSpanElement>("#speechStatus")!;
+const speechOptions = document.querySelector<HTMLDivElement>("#speechOptions")!;
+const speechModeSelect = document.querySelector<HTMLSelectElement>("#speechMode")!;
+const speechLangSelect = document.querySelector<HTMLSelectElement>("#speechLang")!;
+const speechKeySelect = document.querySelector<HTMLSelectElement>("#speechKey")!;
+const micBtn = document.querySelector<HTMLButtonElement>("#mic")!;
+const speechGhost = document.querySelector<HTMLDivElement>("#speechGhost")!;
+const audioEnabled = document.querySelector<HTMLInputElement>("#audioEnabled")!;
+const audioStatusLabel = document.querySelector<HTMLSpanElement>("#audioStatus")!;
+const audioOptions = document.querySelector<HTMLDivElement>("#audioOptions")!;
+const audioSourceSelect = document.querySelector<HTMLSelectElement>("#audioSource")!;
+const audioFileInput = document.querySelector<HTMLInputElement>("#audioFile")!;
+const audioMeter = document.querySelector<HTMLDivElement>("#audioMeter")!;
+const audioSensitivitySlider = document.querySelector<HTMLInputElement>("#audioSensitivity")!;
+const audioSensitivityValue = document.querySelector<HTMLSpanElement>("#audioSensitivityValue")!;
+const audioMappingsBox = document.querySelector<HTMLDivElement>("#audioMappings")!;
+const showStatus = document.querySelector<HTMLSpanElement>("#showStatus")!;
+const showScriptInput = document.querySelector<HTMLTextAreaElement>("#showScript")!;
+const showPlayBtn = document.querySelector<HTMLButtonElement>("#showPlay")!;
+const showStopBtn = document.querySelector<HTMLButtonElement>("#showStop")!;
+const showFileInput = document.querySelector<HTMLInputElement>("#showFile")!;
+const showTimeLabel = document.querySelector<HTMLSpanElement>("#showTime")!;
+const showSeekSlider = document.querySelector<HTMLInputElement>("#showSeek")!;
+const showAttractToggle = document.querySelector<HTMLInputElement>("#showAttract")!;
+const showIdleRow = document.querySelector<HTMLDivElement>("#showIdleRow")!;
+const showIdleSlider = document.querySelector<HTMLInputElement>("#showIdle")!;
+const showIdleValue = document.querySelector<HTMLSpanElement>("#showIdleValue")!;
 
 // --- UI: panel toggle ---
 function setPanelOpen(open: boolean) {
@@ -53,8 +456,9 @@ gear.addEventListener("click", () => {
 
 document.addEventListener("click", (e) => {
   if (!panelOpen) return;
-  const target = e.target as HTMLElement;
-  if (target.closest("#panel") || target.closest("#gear")) return;
+  // 用 composedPath：点击的按钮可能已经被 history 列表重新渲染掉了
+  const path = e.composedPath();
+  if (path.includes(panel) || path.includes(gear)) return;
   panelOpen = false;
   setPanelOpen(false);
 });
@@ -65,98 +469,1588 @@ fontSizeSlider.addEventListener("input", () => {
   fontSizeValue.textContent = String(settings.fontSize);
 });
 
-speedSlider.addEventListener("input", () => {
-  settings.speedMultiplier = Number(speedSlider.value);
-  speedValue.textContent = settings.speedMultiplier.toFixed(2);
+function setSpeed(v: number) {
+  settings.speedMultiplier = Math.max(0.1, Math.min(2, v));
+  speedSlider.value = String(settings.speedMultiplier);
+  speedValue.textContent = settings.speedMultiplier.toFixed(2);
+  persistSettings();
+}
+
+speedSlider.addEventListener("input", () => {
+  setSpeed(Number(speedSlider.value));
+});
+
+function applyColorModeUI() {
+  const isGlobal = settings.colorMode === "global";
+  globalColorRow.style.display = isGlobal ? "flex" : "none";
+}
+
+modeGlobal.addEventListener("change", () => {
+  if (!modeGlobal.checked) return;
+  settings.colorMode = "global";
+  applyColorModeUI();
+});
+
+modeRandom.addEventListener("change", () => {
+  if (!modeRandom.checked) return;
+  settings.colorMode = "random";
+  applyColorModeUI();
+});
+
+colorPicker.addEventListener("input", () => {
+  settings.globalColor = colorPicker.value;
+});
+
+applyColorModeUI();
+
+maxFacesSlider.addEventListener("input", () => {
+  settings.maxFaces = Number(maxFacesSlider.value);
+  maxFacesValue.textContent = String(settings.maxFaces);
+  faceLandmarker?.setOptions({ numFaces: settings.maxFaces });
+});
+
+targetNearest.addEventListener("change", () => {
+  if (targetNearest.checked) settings.targetMode = "nearest";
+});
+
+targetPoint.addEventListener("change", () => {
+  if (targetPoint.checked) settings.targetMode = "point";
+});
+
+// --- UI: theme (font / colouring / per-layer outline + glow) ---
+type LayerSlider = {
+  label: string;
+  key: "scale" | "opacity" | "stroke" | "glow";
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+};
+
+const LAYER_SLIDERS: LayerSlider[] = [
+  { label: "Size", key: "scale", min: 0.3, max: 2, step: 0.05, digits: 2 },
+  { label: "Opacity", key: "opacity", min: 0, max: 1, step: 0.05, digits: 2 },
+  { label: "Outline", key: "stroke", min: 0, max: 0.3, step: 0.01, digits: 2 },
+  { label: "Glow", key: "glow", min: 0, max: 1, step: 0.05, digits: 2 },
+];
+
+let themeLayer: SimLayer = "orbitFront";
+const layerInputs: { spec: LayerSlider; input: HTMLInputElement; value: HTMLSpanElement }[] = [];
+const currentLook = (): LayerStyle => settings.theme.layers[themeLayer];
+
+for (const [key, preset] of Object.entries(THEME_PRESETS)) {
+  themePresetSelect.add(new Option(preset.name, key));
+}
+themePresetSelect.add(new Option("Custom", "custom"));
+themePresetSelect.options[themePresetSelect.options.length - 1].disabled = true;
+
+for (const [family, label] of Object.entries(THEME_FONTS)) {
+  themeFontSelect.add(new Option(label, family));
+}
+for (const [layer, label] of Object.entries(THEME_LAYERS)) {
+  themeLayerSelect.add(new Option(label, layer));
+}
+
+for (const spec of LAYER_SLIDERS) {
+  const row = document.createElement("div");
+  row.className = "panel__row";
+  row.style.marginTop = "8px";
+
+  const label = document.createElement("div");
+  label.className = "panel__label";
+  label.textContent = spec.label;
+
+  const valueBox = document.createElement("div");
+  valueBox.className = "panel__value";
+  const value = document.createElement("span");
+  valueBox.append(value);
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(spec.min);
+  input.max = String(spec.max);
+  input.step = String(spec.step);
+  input.addEventListener("input", () => {
+    currentLook()[spec.key] = Number(input.value);
+    value.textContent = Number(input.value).toFixed(spec.digits);
+    showThemePreset();
+  });
+
+  row.append(label, valueBox);
+  themeLayerControls.append(row, input);
+  layerInputs.push({ spec, input, value });
+}
+
+// 名字不算：和某个预设一模一样就显示那个预设，否则 Custom
+function showThemePreset() {
+  const strip = (t: Theme) => JSON.stringify({ ...t, name: "" });
+  const current = strip(settings.theme);
+  const preset = Object.keys(THEME_PRESETS).find((k) => strip(THEME_PRESETS[k]) === current);
+  themePresetSelect.value = preset ?? "custom";
+}
+
+function applyLayerUI() {
+  const look = currentLook();
+  themeLayerSelect.value = themeLayer;
+  for (const { spec, input, value } of layerInputs) {
+    input.value = String(look[spec.key]);
+    value.textContent = look[spec.key].toFixed(spec.digits);
+  }
+  themeStrokeColor.value = look.strokeColor;
+  themeGlowFromText.checked = !look.glowColor;
+  themeGlowColor.value = look.glowColor || "#ffffff";
+  themeGlowColor.disabled = !look.glowColor;
+}
+
+function applyThemeUI() {
+  const t = settings.theme;
+  // 导入的主题可能用了列表里没有的字体：临时加一个选项
+  if (![...themeFontSelect.options].some((o) => o.value === t.fontFamily)) {
+    themeFontSelect.add(new Option(t.fontFamily, t.fontFamily));
+  }
+  themeFontSelect.value = t.fontFamily;
+  themeWeightSlider.value = String(t.fontWeight);
+  themeWeightValue.textContent = String(t.fontWeight);
+  themeFillSelect.value = t.fill;
+  themePaletteInput.value = t.palette.join(", ");
+  themePaletteInput.hidden = t.fill === "entry";
+  applyLayerUI();
+  showThemePreset();
+  loadThemeFonts(t);
+}
+
+function replaceTheme(theme: Theme) {
+  settings.theme = structuredClone(theme);
+  applyThemeUI();
+  persistSettings();
+}
+
+themePresetSelect.addEventListener("change", () => {
+  const preset = THEME_PRESETS[themePresetSelect.value];
+  if (preset) replaceTheme(preset);
+});
+
+themeFontSelect.addEventListener("change", () => {
+  settings.theme.fontFamily = themeFontSelect.value;
+  loadThemeFonts(settings.theme);
+  showThemePreset();
+});
+
+themeWeightSlider.addEventListener("input", () => {
+  settings.theme.fontWeight = Number(themeWeightSlider.value);
+  themeWeightValue.textContent = themeWeightSlider.value;
+  showThemePreset();
+});
+
+themeFillSelect.addEventListener("change", () => {
+  settings.theme.fill = themeFillSelect.value as ThemeFill;
+  themePaletteInput.hidden = settings.theme.fill === "entry";
+  showThemePreset();
+});
+
+// 逗号 / 空格分隔；写错的颜色直接跳过
+themePaletteInput.addEventListener("change", () => {
+  settings.theme.palette = themePaletteInput.value
+    .split(/[\s,]+/)
+    .filter((c) => c && CSS.supports("color", c));
+  themePaletteInput.value = settings.theme.palette.join(", ");
+  showThemePreset();
+});
+
+themeLayerSelect.addEventListener("change", () => {
+  themeLayer = themeLayerSelect.value as SimLayer;
+  applyLayerUI();
+});
+
+themeStrokeColor.addEventListener("input", () => {
+  currentLook().strokeColor = themeStrokeColor.value;
+  showThemePreset();
+});
+
+themeGlowColor.addEventListener("input", () => {
+  currentLook().glowColor = themeGlowColor.value;
+  showThemePreset();
+});
+
+themeGlowFromText.addEventListener("change", () => {
+  currentLook().glowColor = themeGlowFromText.checked ? "" : themeGlowColor.value;
+  applyLayerUI();
+  showThemePreset();
+});
+
+themeExportBtn.addEventListener("click", () => {
+  const json = JSON.stringify(settings.theme, null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), `theme-${timestampForFilename()}.json`);
+});
+
+themeImportInput.addEventListener("change", async () => {
+  const file = themeImportInput.files?.[0];
+  themeImportInput.value = "";
+  if (!file) return;
+  try {
+    replaceTheme(parseTheme(JSON.parse(await file.text())));
+  } catch (err) {
+    console.error("Theme import failed:", err);
+  }
+});
+
+// --- UI: tokenisation (只影响之后提交的文字) ---
+for (const mode of Object.keys(TOKEN_MODE_LABELS) as TokenMode[]) {
+  tokenModeSelect.add(new Option(TOKEN_MODE_LABELS[mode], mode));
+}
+for (const [locale, label] of Object.entries(TOKEN_LOCALES)) {
+  tokenLocaleSelect.add(new Option(label, locale));
+}
+
+function applyTokenizeUI() {
+  const t = settings.tokenize;
+  tokenModeSelect.value = t.mode;
+  tokenLocaleSelect.value = t.locale;
+  phraseSizeSlider.value = String(t.phraseSize);
+  phraseSizeValue.textContent = String(t.phraseSize);
+  phraseSizeRow.hidden = t.mode !== "phrase";
+}
+
+tokenModeSelect.addEventListener("change", () => {
+  settings.tokenize.mode = tokenModeSelect.value as TokenMode;
+  applyTokenizeUI();
+});
+
+tokenLocaleSelect.addEventListener("change", () => {
+  settings.tokenize.locale = tokenLocaleSelect.value;
+});
+
+phraseSizeSlider.addEventListener("input", () => {
+  settings.tokenize.phraseSize = Number(phraseSizeSlider.value);
+  phraseSizeValue.textContent = phraseSizeSlider.value;
+});
+
+// --- UI: gesture -> action selects ---
+for (const name of Object.keys(GESTURE_LABELS) as GestureName[]) {
+  const row = document.createElement("label");
+  row.className = "panel__row panel__select";
+
+  const label = document.createElement("span");
+  label.className = "panel__label";
+  label.textContent = GESTURE_LABELS[name];
+
+  const select = document.createElement("select");
+  for (const action of Object.keys(ACTION_LABELS) as GestureAction[]) {
+    select.add(new Option(ACTION_LABELS[action], action));
+  }
+  select.value = settings.gestureBindings[name];
+  select.addEventListener("change", () => {
+    settings.gestureBindings[name] = select.value as GestureAction;
+  });
+
+  row.append(label, select);
+  gestureBindingsBox.append(row);
+}
+
+// --- UI: per-hand brush force + strength ---
+for (const hand of ["Left", "Right"] as Handedness[]) {
+  const key = hand.toLowerCase();
+  const forceSelect = document.querySelector<HTMLSelectElement>(`#${key}Force`)!;
+  const strengthSlider = document.querySelector<HTMLInputElement>(`#${key}Strength`)!;
+  const strengthValue = document.querySelector<HTMLSpanElement>(`#${key}StrengthValue`)!;
+
+  forceSelect.value = settings.hands[hand].force;
+  forceSelect.addEventListener("change", () => {
+    settings.hands[hand].force = forceSelect.value as BrushForce;
+  });
+
+  strengthSlider.value = String(settings.hands[hand].strength);
+  strengthValue.textContent = settings.hands[hand].strength.toFixed(2);
+  strengthSlider.addEventListener("input", () => {
+    settings.hands[hand].strength = Number(strengthSlider.value);
+    strengthValue.textContent = settings.hands[hand].strength.toFixed(2);
+  });
+}
+
+brushTipsSelect.addEventListener("change", () => {
+  settings.brushTips = brushTipsSelect.value as Settings["brushTips"];
+});
+
+captureBgSelect.addEventListener("change", () => {
+  settings.captureBackground = captureBgSelect.value as CaptureBackground;
+});
+
+// --- UI: token lifetime ---
+function applyLifetimeUI() {
+  const life = settings.lifetime;
+  lifeInfinite.checked = life.infinite;
+  lifeRow.style.display = life.infinite ? "none" : "";
+  lifeSlider.style.display = life.infinite ? "none" : "";
+  lifeSlider.value = String(life.seconds);
+  lifeValue.textContent = String(life.seconds);
+  fadeOutSlider.value = String(life.fadeOutSec);
+  fadeOutValue.textContent = life.fadeOutSec.toFixed(1);
+  fadeCurveSelect.value = life.curve;
+}
+
+lifeInfinite.addEventListener("change", () => {
+  settings.lifetime.infinite = lifeInfinite.checked;
+  applyLifetimeUI();
+});
+
+lifeSlider.addEventListener("input", () => {
+  settings.lifetime.seconds = Number(lifeSlider.value);
+  lifeValue.textContent = String(settings.lifetime.seconds);
+});
+
+fadeOutSlider.addEventListener("input", () => {
+  settings.lifetime.fadeOutSec = Number(fadeOutSlider.value);
+  fadeOutValue.textContent = settings.lifetime.fadeOutSec.toFixed(1);
+});
+
+fadeCurveSelect.addEventListener("change", () => {
+  settings.lifetime.curve = fadeCurveSelect.value as FadeCurve;
+});
+
+// --- UI: orbit layout (rings / spiral / sphere / ribbon / crown, animated switch) ---
+for (const mode of Object.keys(LAYOUT_LABELS) as LayoutMode[]) {
+  layoutModeSelect.add(new Option(LAYOUT_LABELS[mode], mode));
+}
+
+function applyLayoutUI() {
+  layoutModeSelect.value = settings.layout.mode;
+  layoutTransitionSlider.value = String(settings.layout.transitionSec);
+  layoutTransitionValue.textContent = settings.layout.transitionSec.toFixed(1);
+  groupThoughtsToggle.checked = settings.layout.groupThoughts;
+}
+
+// 每个 head 的 cloud 下一帧自己发现布局变了，开始过渡
+layoutModeSelect.addEventListener("change", () => {
+  settings.layout.mode = layoutModeSelect.value as LayoutMode;
+});
+
+groupThoughtsToggle.addEventListener("change", () => {
+  settings.layout.groupThoughts = groupThoughtsToggle.checked;
+});
+
+layoutTransitionSlider.addEventListener("input", () => {
+  settings.layout.transitionSec = Number(layoutTransitionSlider.value);
+  applyLayoutUI();
+});
+
+// --- UI: 3D orbit ring shape ---
+function applyRingUI() {
+  const ring = settings.ring;
+  ringTiltSlider.value = String(ring.inclination);
+  ringTiltValue.textContent = String(ring.inclination);
+  ringLiftSlider.value = String(ring.lift);
+  ringLiftValue.textContent = ring.lift.toFixed(2);
+  ringFollowToggle.checked = ring.followHead;
+
+  const preset = Object.keys(RING_PRESETS).find(
+    (k) => RING_PRESETS[k].inclination === ring.inclination && RING_PRESETS[k].lift === ring.lift
+  );
+  ringStyleSelect.value = preset ?? "custom";
+}
+
+ringStyleSelect.addEventListener("change", () => {
+  const preset = RING_PRESETS[ringStyleSelect.value];
+  if (preset) Object.assign(settings.ring, preset);
+  applyRingUI();
+});
+
+ringTiltSlider.addEventListener("input", () => {
+  settings.ring.inclination = Number(ringTiltSlider.value);
+  applyRingUI();
+});
+
+ringLiftSlider.addEventListener("input", () => {
+  settings.ring.lift = Number(ringLiftSlider.value);
+  applyRingUI();
+});
+
+ringFollowToggle.addEventListener("change", () => {
+  settings.ring.followHead = ringFollowToggle.checked;
+});
+
+// --- UI: veil coverage (share of the head mask) + reveal near a hand ---
+function applyVeilUI() {
+  const veil = settings.veil;
+  const pct = Math.round(veil.coverage * 100);
+  veilCoverageSlider.value = String(pct);
+  veilCoverageValue.textContent = String(pct);
+  veilRevealToggle.checked = veil.reveal;
+  veilRevealRow.style.display = veil.reveal ? "" : "none";
+  veilRevealRadiusSlider.value = String(veil.revealRadius);
+  veilRevealRadiusValue.textContent = String(veil.revealRadius);
+}
+
+veilCoverageSlider.addEventListener("input", () => {
+  settings.veil.coverage = Number(veilCoverageSlider.value) / 100;
+  applyVeilUI();
+});
+
+veilRevealToggle.addEventListener("change", () => {
+  settings.veil.reveal = veilRevealToggle.checked;
+  applyVeilUI();
+});
+
+veilRevealRadiusSlider.addEventListener("input", () => {
+  settings.veil.revealRadius = Number(veilRevealRadiusSlider.value);
+  applyVeilUI();
+});
+
+// --- UI: occlusion (landmark outline vs. per-pixel segmentation) ---
+function applyOcclusionUI() {
+  const seg = settings.segmentation;
+  occlusionSelect.value = settings.occlusion;
+  segmentOptions.style.display = settings.occlusion === "segmentation" ? "" : "none";
+  segSmoothingSlider.value = String(seg.smoothingSec);
+  segSmoothingValue.textContent = seg.smoothingSec.toFixed(2);
+  segFeatherSlider.value = String(seg.featherPx);
+  segFeatherValue.textContent = String(seg.featherPx);
+}
+
+function showOcclusionStatus() {
+  occlusionStatus.textContent =
+    settings.occlusion !== "segmentation" ? ""
+    : segmentStage.state === "active" ? "loading…"
+    : segmentStage.state === "error" ? "unavailable, using outline"
+    : tracking?.kind === "replay" ? "needs the live camera"
+    : segmentation ? "active"
+    : "";
+}
+
+occlusionSelect.addEventListener("change", () => {
+  settings.occlusion = occlusionSelect.value as OcclusionMode;
+  applyOcclusionUI();
+  showOcclusionStatus();
+  if (settings.occlusion === "segmentation") void ensureSegmenter();
+});
+
+segSmoothingSlider.addEventListener("input", () => {
+  settings.segmentation.smoothingSec = Number(segSmoothingSlider.value);
+  applyOcclusionUI();
+});
+
+segFeatherSlider.addEventListener("input", () => {
+  settings.segmentation.featherPx = Number(segFeatherSlider.value);
+  applyOcclusionUI();
+});
+
+// --- UI: tracking tuning (for installers: lighting / distance differ per venue) ---
+type TuningSlider = {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+  get: (t: TrackingTuning) => number;
+  set: (t: TrackingTuning, v: number) => void;
+};
+
+const TUNING_SLIDERS: TuningSlider[] = [
+  {
+    label: "Head steadiness", unit: "Hz", min: 0.1, max: 5, step: 0.1, digits: 1,
+    get: (t) => t.head.minCutoff, set: (t, v) => (t.head.minCutoff = v),
+  },
+  {
+    label: "Head responsiveness", unit: "", min: 0, max: 0.1, step: 0.005, digits: 3,
+    get: (t) => t.head.beta, set: (t, v) => (t.head.beta = v),
+  },
+  {
+    label: "Face size steadiness", unit: "Hz", min: 0.1, max: 5, step: 0.1, digits: 1,
+    get: (t) => t.size.minCutoff, set: (t, v) => (t.size.minCutoff = v),
+  },
+  {
+    label: "Head rotation steadiness", unit: "Hz", min: 0.1, max: 5, step: 0.1, digits: 1,
+    get: (t) => t.angles.minCutoff, set: (t, v) => (t.angles.minCutoff = v),
+  },
+  {
+    label: "Fingertip steadiness", unit: "Hz", min: 0.1, max: 8, step: 0.1, digits: 1,
+    get: (t) => t.finger.minCutoff, set: (t, v) => (t.finger.minCutoff = v),
+  },
+  {
+    label: "Fingertip responsiveness", unit: "", min: 0, max: 0.2, step: 0.005, digits: 3,
+    get: (t) => t.finger.beta, set: (t, v) => (t.finger.beta = v),
+  },
+  {
+    label: "Lost face: hold", unit: "s", min: 0, max: 5, step: 0.1, digits: 1,
+    get: (t) => t.graceSec, set: (t, v) => (t.graceSec = v),
+  },
+  {
+    label: "Lost face: fade out", unit: "s", min: 0.1, max: 6, step: 0.1, digits: 1,
+    get: (t) => t.fadeSec, set: (t, v) => (t.fadeSec = v),
+  },
+  {
+    label: "Re-lock fade in", unit: "s", min: 0, max: 2, step: 0.05, digits: 2,
+    get: (t) => t.relockSec, set: (t, v) => (t.relockSec = v),
+  },
+];
+
+const tuningInputs: { spec: TuningSlider; input: HTMLInputElement; value: HTMLSpanElement }[] = [];
+
+for (const spec of TUNING_SLIDERS) {
+  const row = document.createElement("div");
+  row.className = "panel__row";
+  row.style.marginTop = "8px";
+
+  const label = document.createElement("div");
+  label.className = "panel__label";
+  label.textContent = spec.label;
+
+  const valueBox = document.createElement("div");
+  valueBox.className = "panel__value";
+  const value = document.createElement("span");
+  valueBox.append(value, spec.unit);
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(spec.min);
+  input.max = String(spec.max);
+  input.step = String(spec.step);
+  input.addEventListener("input", () => {
+    spec.set(settings.tracking, Number(input.value));
+    value.textContent = Number(input.value).toFixed(spec.digits);
+  });
+
+  row.append(label, valueBox);
+  trackingTuningBox.append(row, input);
+  tuningInputs.push({ spec, input, value });
+}
+
+function applyTuningUI() {
+  for (const { spec, input, value } of tuningInputs) {
+    const v = spec.get(settings.tracking);
+    input.value = String(v);
+    value.textContent = v.toFixed(spec.digits);
+  }
+}
+
+// --- UI: physics tuning (every ORBIT constant, grouped, with named presets) ---
+const physicsInputs: { spec: TuningSpec; input: HTMLInputElement; value: HTMLSpanElement }[] = [];
+let physicsGroup: TuningGroup | null = null;
+
+for (const spec of TUNING_SPECS) {
+  if (spec.group !== physicsGroup) {
+    physicsGroup = spec.group;
+    const heading = document.createElement("div");
+    heading.className = "panel__row";
+    heading.style.marginTop = "12px";
+    const label = document.createElement("div");
+    label.className = "panel__label";
+    label.textContent = TUNING_GROUPS[spec.group];
+    heading.append(label);
+    physicsTuningBox.append(heading);
+  }
+
+  const row = document.createElement("div");
+  row.className = "panel__row";
+  row.style.marginTop = "8px";
+
+  const label = document.createElement("div");
+  label.className = "panel__label";
+  label.textContent = spec.label;
+
+  const valueBox = document.createElement("div");
+  valueBox.className = "panel__value";
+  const value = document.createElement("span");
+  valueBox.append(value);
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(spec.min);
+  input.max = String(spec.max);
+  input.step = String(spec.step);
+  // 直接改 ORBIT：下一帧就生效
+  input.addEventListener("input", () => {
+    settings.physics[spec.key] = Number(input.value);
+    applyPhysics(settings.physics);
+    value.textContent = Number(input.value).toFixed(spec.digits);
+    showPhysicsPreset();
+  });
+
+  row.append(label, valueBox);
+  physicsTuningBox.append(row, input);
+  physicsInputs.push({ spec, input, value });
+}
+
+// 自己存的同名预设盖过内置的
+function physicsPresets() {
+  const saved = new Set(settings.physicsPresets.map((p) => p.name));
+  return [...BUILTIN_PHYSICS_PRESETS.filter((p) => !saved.has(p.name)), ...settings.physicsPresets];
+}
+
+const presetValues = (p: PhysicsPreset): Physics => ({ ...defaultPhysics(), ...p.values });
+
+// 和某个预设完全一样就显示它的名字，否则 Custom
+function showPhysicsPreset(note = "") {
+  const current = JSON.stringify(settings.physics);
+  const match = physicsPresets().find((p) => JSON.stringify(presetValues(p)) === current);
+  physicsPresetSelect.value = match?.name ?? "";
+  physicsDeleteBtn.disabled = !settings.physicsPresets.some((p) => p.name === match?.name);
+  physicsStatus.textContent = note;
+}
+
+function renderPhysicsPresetOptions() {
+  physicsPresetSelect.replaceChildren();
+  for (const p of physicsPresets()) physicsPresetSelect.add(new Option(p.name, p.name));
+  const custom = new Option("Custom", "");
+  custom.disabled = true;
+  physicsPresetSelect.add(custom);
+}
+
+function applyPhysicsUI() {
+  applyPhysics(settings.physics);
+  for (const { spec, input, value } of physicsInputs) {
+    const v = settings.physics[spec.key];
+    input.value = String(v);
+    value.textContent = v.toFixed(spec.digits);
+  }
+  renderPhysicsPresetOptions();
+  showPhysicsPreset();
+}
+
+function usePhysicsPreset(preset: PhysicsPreset) {
+  settings.physics = presetValues(preset);
+  applyPhysicsUI();
+  persistSettings();
+}
+
+// 文件里的预设收进自己的列表（同名覆盖），然后切到第一个
+function importPhysicsPresets(presets: PhysicsPreset[]) {
+  const names = new Set(presets.map((p) => p.name));
+  settings.physicsPresets = [...settings.physicsPresets.filter((p) => !names.has(p.name)), ...presets];
+  usePhysicsPreset(presets[0]);
+}
+
+physicsPresetSelect.addEventListener("change", () => {
+  const preset = physicsPresets().find((p) => p.name === physicsPresetSelect.value);
+  if (preset) usePhysicsPreset(preset);
+});
+
+physicsSaveBtn.addEventListener("click", () => {
+  const name = window.prompt("Preset name", physicsPresetSelect.value || "My preset")?.trim();
+  if (!name) return;
+  importPhysicsPresets([{ name, values: { ...settings.physics } }]);
+});
+
+physicsDeleteBtn.addEventListener("click", () => {
+  const name = physicsPresetSelect.value;
+  settings.physicsPresets = settings.physicsPresets.filter((p) => p.name !== name);
+  applyPhysicsUI();
+  persistSettings();
+});
+
+physicsResetBtn.addEventListener("click", () => usePhysicsPreset({ name: "Default", values: {} }));
+
+physicsExportBtn.addEventListener("click", () => {
+  const preset: PhysicsPreset = { name: physicsPresetSelect.value || "Custom", values: settings.physics };
+  const json = JSON.stringify(preset, null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), `physics-${timestampForFilename()}.json`);
+});
+
+physicsImportInput.addEventListener("change", async () => {
+  const file = physicsImportInput.files?.[0];
+  physicsImportInput.value = "";
+  if (!file) return;
+  try {
+    importPhysicsPresets(parsePhysicsPresets(JSON.parse(await file.text())));
+  } catch (err) {
+    console.error("Physics preset failed:", err);
+    showPhysicsPreset(`Could not load: ${err instanceof Error ? err.message : err}`);
+  }
+});
+
+// ?preset=Calm 用已有的预设；?preset=/presets/lobby.json 从文件加载（每个展点一个）
+function loadPhysicsPresetFromUrl(ref: string) {
+  if (/\.json$|\//i.test(ref)) {
+    fetchPhysicsPresets(ref)
+      .then(importPhysicsPresets)
+      .catch((err) => {
+        console.error("Physics preset failed:", err);
+        showPhysicsPreset("Could not load preset from URL");
+      });
+    return;
+  }
+  const preset = physicsPresets().find((p) => p.name.toLowerCase() === ref.toLowerCase());
+  if (preset) usePhysicsPreset(preset);
+  else showPhysicsPreset(`No preset named "${ref}"`);
+}
+
+// --- Remote submissions (phones -> relay -> SSE -> paced queue -> commitThought) ---
+const REMOTE_STATUS_LABELS: Record<RemoteStatus, string> = {
+  off: "",
+  connecting: "connecting…",
+  live: "live",
+  error: "relay unreachable",
+};
+
+const remote = createRemoteInbox(settings.remote, {
+  // 按发送地址限速：sender id 是手机自己定的，换一个就能绕过
+  onMessage: (m) => commitThought(m.text, `remote:${m.from ?? "?"}`),
+  onPending: renderRemotePending,
+  onStatus(status, queued) {
+    remoteStatus.textContent = REMOTE_STATUS_LABELS[status] + (queued ? ` · ${queued} queued` : "");
+  },
+});
+
+function renderRemotePending(list: RemoteMessage[]) {
+  remotePendingList.replaceChildren();
+  for (const m of list) {
+    const row = document.createElement("div");
+    row.className = "history__item";
+
+    const text = document.createElement("span");
+    text.className = "history__text";
+    text.textContent = m.text;
+    text.title = m.text;
+
+    const approve = document.createElement("button");
+    approve.type = "button";
+    approve.className = "history__btn";
+    approve.textContent = "✓";
+    approve.title = "Show it";
+    approve.addEventListener("click", () => remote.moderate(m.id, true).catch(console.error));
+
+    const reject = document.createElement("button");
+    reject.type = "button";
+    reject.className = "history__btn";
+    reject.textContent = "✕";
+    reject.title = "Discard";
+    reject.addEventListener("click", () => remote.moderate(m.id, false).catch(console.error));
+
+    row.append(text, approve, reject);
+    remotePendingList.append(row);
+  }
+}
+
+function applyRemoteUI() {
+  const r = settings.remote;
+  remoteEnabled.checked = r.enabled;
+  remoteUrlInput.value = r.baseUrl;
+  remoteTokenInput.value = r.operatorToken;
+  remoteApproval.checked = r.approval;
+  remotePaceSlider.value = String(r.paceSec);
+  remotePaceValue.textContent = r.paceSec.toFixed(1);
+}
+
+remoteEnabled.addEventListener("change", () => {
+  settings.remote.enabled = remoteEnabled.checked;
+  if (settings.remote.enabled) remote.connect();
+  else remote.disconnect();
+});
+
+// 地址 / token 改完（失焦）再重连
+for (const input of [remoteUrlInput, remoteTokenInput]) {
+  input.addEventListener("change", () => {
+    settings.remote.baseUrl = remoteUrlInput.value.trim();
+    settings.remote.operatorToken = remoteTokenInput.value;
+    if (settings.remote.enabled) remote.connect();
+  });
+}
+
+remoteApproval.addEventListener("change", () => remote.setApproval(remoteApproval.checked));
+
+remotePaceSlider.addEventListener("input", () => {
+  settings.remote.paceSec = Number(remotePaceSlider.value);
+  remotePaceValue.textContent = settings.remote.paceSec.toFixed(1);
+});
+
+// --- Moderation (blocklist / length / rate, between commitThought and enqueueTokens) ---
+type HeldThought = { id: number; text: string; reason: string };
+
+const moderator = createModerator(settings.moderation);
+const heldThoughts: HeldThought[] = [];
+let nextHeldId = 1;
+
+function showModerationStatus(note = "") {
+  const n = settings.moderation.blocklist.length;
+  moderationStatus.textContent = note || (settings.moderation.enabled ? `${n} blocked term${n === 1 ? "" : "s"}` : "off");
+}
+
+function renderHeldThoughts() {
+  moderationHeldList.replaceChildren();
+  for (const held of heldThoughts) {
+    const row = document.createElement("div");
+    row.className = "history__item";
+
+    const text = document.createElement("span");
+    text.className = "history__text";
+    text.textContent = held.text;
+    text.title = `${held.text}\nHeld: ${held.reason}`;
+
+    const approve = document.createElement("button");
+    approve.type = "button";
+    approve.className = "history__btn";
+    approve.textContent = "✓";
+    approve.title = "Show it";
+    approve.addEventListener("click", () => releaseHeld(held.id, true));
+
+    const reject = document.createElement("button");
+    reject.type = "button";
+    reject.className = "history__btn";
+    reject.textContent = "✕";
+    reject.title = "Discard";
+    reject.addEventListener("click", () => releaseHeld(held.id, false));
+
+    row.append(text, approve, reject);
+    moderationHeldList.append(row);
+  }
+}
+
+function releaseHeld(id: number, approve: boolean) {
+  const i = heldThoughts.findIndex((h) => h.id === id);
+  if (i < 0) return;
+  const [held] = heldThoughts.splice(i, 1);
+  if (approve) addThought(held.text);
+  renderHeldThoughts();
+}
+
+function applyModerationUI() {
+  const m = settings.moderation;
+  moderationEnabled.checked = m.enabled;
+  moderationActionSelect.value = m.action;
+  moderationBlocklist.value = m.blocklist.join("\n");
+  showModerationStatus();
+}
+
+// 整套替换（从文件 / URL 加载）：原地改，moderator 拿着的是同一个对象
+function replaceModerationRules(rules: ModerationRules) {
+  Object.assign(settings.moderation, rules);
+  applyModerationUI();
+  persistSettings();
+}
+
+moderationEnabled.addEventListener("change", () => {
+  settings.moderation.enabled = moderationEnabled.checked;
+  showModerationStatus();
+});
+
+moderationActionSelect.addEventListener("change", () => {
+  settings.moderation.action = moderationActionSelect.value as ModerationAction;
+});
+
+// 一行一个词
+moderationBlocklist.addEventListener("input", () => {
+  settings.moderation.blocklist = moderationBlocklist.value
+    .split("\n")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  showModerationStatus();
+});
+
+moderationFileInput.addEventListener("change", async () => {
+  const file = moderationFileInput.files?.[0];
+  moderationFileInput.value = "";
+  if (!file) return;
+  try {
+    replaceModerationRules(parseModerationRules(JSON.parse(await file.text())));
+  } catch (err) {
+    console.error("Moderation rules failed:", err);
+    showModerationStatus(`Could not load: ${err instanceof Error ? err.message : err}`);
+  }
+});
+
+// --- Speech input (interim -> ghost line, final -> commitThought) ---
+const SPEECH_STATUS_LABELS: Record<SpeechState, string> = {
+  idle: "",
+  listening: "listening…",
+  error: "mic error",
+};
+
+const speech = SPEECH_ENGINES[settings.speech.engine]({
+  onResult(text, final) {
+    if (final) {
+      commitThought(text, "speech");
+      text = "";
+    }
+    speechGhost.textContent = text;
+    speechGhost.hidden = !text;
+  },
+  onState(state, detail) {
+    micBtn.classList.toggle("micBtn--listening", state === "listening");
+    speechStatus.textContent = SPEECH_STATUS_LABELS[state] + (detail ? ` (${detail})` : "");
+  },
+});
+
+function startListening() {
+  if (!speech || !settings.speech.enabled) return;
+  speech.start(resolveSpeechLang(settings.speech.lang), settings.speech.mode === "continuous");
+}
+
+function stopListening() {
+  speech?.stop();
+}
+
+function applySpeechUI() {
+  const s = settings.speech;
+  speechEnabled.checked = s.enabled;
+  speechEnabled.disabled = !speech;
+  speechOptions.hidden = !s.enabled;
+  speechModeSelect.value = s.mode;
+  speechLangSelect.value = s.lang;
+  speechKeySelect.value = s.pushToTalkKey;
+  micBtn.hidden = !s.enabled || !speech;
+  if (!speech) speechStatus.textContent = "not supported in this browser";
+}
+
+// 改了模式 / 语言：正在听就用新参数重新开始
+function restartListening() {
+  if (!speech?.listening()) return;
+  stopListening();
+  if (settings.speech.mode === "continuous") startListening();
+}
+
+for (const [lang, label] of Object.entries(SPEECH_LANGUAGES)) {
+  speechLangSelect.add(new Option(label, lang));
+}
+
+speechEnabled.addEventListener("change", () => {
+  settings.speech.enabled = speechEnabled.checked;
+  applySpeechUI();
+  if (settings.speech.enabled && settings.speech.mode === "continuous") startListening();
+  else stopListening();
+});
+
+speechModeSelect.addEventListener("change", () => {
+  settings.speech.mode = speechModeSelect.value as SpeechMode;
+  if (settings.speech.mode === "continuous") startListening();
+  else stopListening();
+});
+
+speechLangSelect.addEventListener("change", () => {
+  settings.speech.lang = speechLangSelect.value;
+  restartListening();
+});
+
+speechKeySelect.addEventListener("change", () => {
+  settings.speech.pushToTalkKey = speechKeySelect.value;
+});
+
+micBtn.addEventListener("click", () => {
+  if (speech?.listening()) stopListening();
+  else startListening();
+});
+
+// 按住说话：焦点在输入框里时不抢键（空格还要用来打字）
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+window.addEventListener("keydown", (e) => {
+  if (e.code !== settings.speech.pushToTalkKey || e.repeat || isTypingTarget(e.target)) return;
+  if (!settings.speech.enabled || settings.speech.mode !== "pushToTalk") return;
+  e.preventDefault();
+  startListening();
+});
+
+window.addEventListener("keyup", (e) => {
+  if (e.code !== settings.speech.pushToTalkKey || isTypingTarget(e.target)) return;
+  if (settings.speech.mode === "pushToTalk") stopListening();
+});
+
+// --- Audio reactive (mic / local file -> orbit speed, ring breathing, pulse, veil drift) ---
+const AUDIO_STATUS_LABELS: Record<AudioStatus, string> = {
+  off: "",
+  starting: "starting…",
+  live: "live",
+  suspended: "click anywhere to start",
+  "no-file": "choose an audio file",
+  error: "audio error",
+};
+
+const audio = createAudioAnalyser({
+  onStatus(status, detail) {
+    audioStatusLabel.textContent = AUDIO_STATUS_LABELS[status] + (detail ? ` (${detail})` : "");
+  },
+});
+
+function startAudio() {
+  if (!settings.audio.enabled) audio.stop();
+  else if (settings.audio.source === "mic") audio.startMic();
+  else audio.startFile();
+}
+
+// 电平表：五个量各一根条
+const METER_INPUTS: AudioInput[] = ["level", "bass", "mid", "treble", "beat"];
+const meterFills = METER_INPUTS.map((input) => {
+  const bar = document.createElement("div");
+  bar.className = "audioMeter__bar";
+  const fill = document.createElement("div");
+  fill.className = "audioMeter__fill";
+  const label = document.createElement("div");
+  label.className = "audioMeter__label";
+  label.textContent = AUDIO_INPUT_LABELS[input].split(" ")[0];
+  bar.append(fill, label);
+  audioMeter.append(bar);
+  return fill;
+});
+
+// 每帧：读音频 -> 给 simulation 的乘数（关着的时候就是 NO_DRIVE）
+function audioDrive(now: number) {
+  if (!settings.audio.enabled) return NO_DRIVE;
+  const features = audio.read(now, settings.audio.sensitivity);
+  if (panelOpen) {
+    METER_INPUTS.forEach((input, i) => (meterFills[i].style.transform = `scaleY(${features[input]})`));
+  }
+  return driveFromAudio(features, settings.audio);
+}
+
+const audioMappingInputs: { target: AudioTarget; select: HTMLSelectElement; amount: HTMLInputElement; value: HTMLSpanElement }[] = [];
+
+for (const target of Object.keys(AUDIO_TARGET_LABELS) as AudioTarget[]) {
+  const row = document.createElement("div");
+  row.className = "panel__row panel__select";
+  row.style.marginTop = "10px";
+  const label = document.createElement("div");
+  label.className = "panel__label";
+  label.textContent = AUDIO_TARGET_LABELS[target];
+  const select = document.createElement("select");
+  for (const [input, name] of Object.entries(AUDIO_INPUT_LABELS)) select.add(new Option(name, input));
+  row.append(label, select);
+
+  const amountRow = document.createElement("div");
+  amountRow.className = "panel__row";
+  const amountLabel = document.createElement("div");
+  amountLabel.className = "panel__label";
+  amountLabel.textContent = "Amount";
+  const valueBox = document.createElement("div");
+  valueBox.className = "panel__value";
+  const value = document.createElement("span");
+  valueBox.append("+", value, "×");
+  amountRow.append(amountLabel, valueBox);
+
+  const amount = document.createElement("input");
+  amount.type = "range";
+  amount.min = "0";
+  amount.max = String(AUDIO_AMOUNT_MAX[target]);
+  amount.step = "0.01";
+
+  select.addEventListener("change", () => {
+    settings.audio.mappings[target].input = select.value as AudioInput | "off";
+    applyAudioUI();
+  });
+  amount.addEventListener("input", () => {
+    settings.audio.mappings[target].amount = Number(amount.value);
+    value.textContent = Number(amount.value).toFixed(2);
+  });
+
+  audioMappingsBox.append(row, amountRow, amount);
+  audioMappingInputs.push({ target, select, amount, value });
+}
+
+function applyAudioUI() {
+  const a = settings.audio;
+  audioEnabled.checked = a.enabled;
+  audioOptions.hidden = !a.enabled;
+  audioSourceSelect.value = a.source;
+  audioSensitivitySlider.value = String(a.sensitivity);
+  audioSensitivityValue.textContent = a.sensitivity.toFixed(2);
+  for (const { target, select, amount, value } of audioMappingInputs) {
+    const m = a.mappings[target];
+    select.value = m.input;
+    amount.value = String(m.amount);
+    amount.disabled = m.input === "off";
+    value.textContent = m.amount.toFixed(2);
+  }
+}
+
+audioEnabled.addEventListener("change", () => {
+  settings.audio.enabled = audioEnabled.checked;
+  applyAudioUI();
+  startAudio();
+});
+
+audioSourceSelect.addEventListener("change", () => {
+  settings.audio.source = audioSourceSelect.value as AudioSource;
+  startAudio();
+});
+
+// 选了文件就切到文件源并开始循环播放
+audioFileInput.addEventListener("change", () => {
+  const file = audioFileInput.files?.[0];
+  audioFileInput.value = "";
+  if (!file) return;
+  settings.audio.source = "file";
+  applyAudioUI();
+  audio.startFile(file);
+});
+
+audioSensitivitySlider.addEventListener("input", () => {
+  settings.audio.sensitivity = Number(audioSensitivitySlider.value);
+  audioSensitivityValue.textContent = settings.audio.sensitivity.toFixed(2);
+});
+
+// --- Show mode (timed script of thoughts / settings / clears, attract mode when nobody is there) ---
+// 脚本改的设置不存盘（见 persistSettings）：停下 / 刷新页面都回到操作员自己的设置
+function setShowValue(key: ShowKey, value: number | string) {
+  operatorSettings ??= takeShowSnapshot();
+  switch (key) {
+    case "speed":
+      settings.speedMultiplier = Math.max(0.1, Math.min(2, Number(value)));
+      speedSlider.value = String(settings.speedMultiplier);
+      speedValue.textContent = settings.speedMultiplier.toFixed(2);
+      break;
+    case "size":
+      settings.fontSize = Math.max(8, Math.round(Number(value)));
+      fontSizeSlider.value = String(settings.fontSize);
+      fontSizeValue.textContent = String(settings.fontSize);
+      break;
+    case "veil":
+      settings.veil.coverage = Math.max(0, Math.min(1, Number(value) / 100));
+      applyVeilUI();
+      break;
+    case "colors":
+      settings.colorMode = value as Settings["colorMode"];
+      modeGlobal.checked = settings.colorMode === "global";
+      modeRandom.checked = settings.colorMode === "random";
+      applyColorModeUI();
+      break;
+    case "color":
+      settings.globalColor = toHexColor(String(value));
+      colorPicker.value = settings.globalColor;
+      break;
+    case "layout":
+      settings.layout.mode = value as LayoutMode;
+      applyLayoutUI();
+      break;
+    case "preset": {
+      const name = String(value).toLowerCase();
+      const preset = physicsPresets().find((p) => p.name.toLowerCase() === name);
+      if (!preset) {
+        console.warn(`Show: no physics preset named "${value}"`);
+        break;
+      }
+      settings.physics = presetValues(preset);
+      applyPhysicsUI();
+      break;
+    }
+    case "theme": {
+      const name = String(value).toLowerCase();
+      const theme = Object.entries(THEME_PRESETS).find(([id, t]) => id === name || t.name.toLowerCase() === name)?.[1];
+      if (!theme) {
+        console.warn(`Show: no theme named "${value}"`);
+        break;
+      }
+      settings.theme = structuredClone(theme);
+      loadThemeFonts(settings.theme);
+      applyThemeUI();
+      break;
+    }
+  }
+}
+
+function getShowValue(key: ShowKey) {
+  switch (key) {
+    case "speed":
+      return settings.speedMultiplier;
+    case "size":
+      return settings.fontSize;
+    case "veil":
+      return settings.veil.coverage * 100;
+    default:
+      return 0;
+  }
+}
+
+// 没人的时候文字放在画面中间（淡完的 head 看不见，换成一个居中的占位）
+function ensureStageHead() {
+  if (heads.some((h) => h.visible || h.opacity > 0)) return;
+  // 走 removeHead：历史里跟着去掉，抓着的字也放开
+  for (let i = heads.length - 1; i >= 0; i--) removeHead(i);
+  heads.push(createHead(window.innerWidth * 0.5, window.innerHeight * 0.45));
+}
+
+const show = createShowPlayer({
+  // 脚本是操作员自己写的：不走审核 / 频率限制（同一秒两句也要照放）
+  say(text) {
+    ensureStageHead();
+    addThought(text);
+  },
+  clear: clearAll,
+  set: setShowValue,
+  get: getShowValue,
+});
+
+// attract 自动开始前的设置，有人走近时还原；null = 不是 attract 在播
+type ShowSnapshot = Pick<
+  Settings,
+  "speedMultiplier" | "fontSize" | "colorMode" | "globalColor" | "layout" | "veil" | "physics" | "theme"
+>;
+let attractSnapshot: ShowSnapshot | null = null;
+let lastFaceAt = performance.now();
+
+function takeShowSnapshot(): ShowSnapshot {
+  const { speedMultiplier, fontSize, colorMode, globalColor, layout, veil, physics, theme } = settings;
+  return structuredClone({ speedMultiplier, fontSize, colorMode, globalColor, layout, veil, physics, theme });
+}
+
+function restoreOperatorSettings() {
+  if (!operatorSettings) return;
+  Object.assign(settings, operatorSettings);
+  operatorSettings = null;
+  syncPanelFromSettings();
+}
+
+function showShowStatus(note = "") {
+  const script = show.script();
+  const summary = script
+    ? `${script.cues.length} cues, ${formatShowTime(script.duration)}${script.loop ? ", loop" : ""}`
+    : "";
+  showStatus.textContent = note || summary;
+}
+
+function loadShowScript(source: string) {
+  try {
+    const script = source.trim() ? parseShowScript(source) : null;
+    settings.show.script = source;
+    attractSnapshot = null;
+    show.load(script);
+    restoreOperatorSettings();
+    showShowStatus();
+    return true;
+  } catch (err) {
+    showShowStatus(err instanceof Error ? err.message : String(err));
+    return false;
+  }
+}
+
+function applyShowUI() {
+  const s = settings.show;
+  showScriptInput.value = s.script;
+  showAttractToggle.checked = s.attract;
+  showIdleRow.style.display = s.attract ? "" : "none";
+  showIdleSlider.value = String(s.idleSec);
+  showIdleValue.textContent = String(s.idleSec);
+}
+
+// 每帧：attract 的开始 / 交还，推进时间轴，面板开着时刷新进度条
+function updateShow(now: number, faceSeen: boolean) {
+  if (faceSeen) lastFaceAt = now;
+
+  if (faceSeen && attractSnapshot) {
+    // 有人来了：停下脚本，设置还原成开始前的样子，交给现场输入
+    show.stop();
+    Object.assign(settings, operatorSettings ?? attractSnapshot);
+    attractSnapshot = null;
+    operatorSettings = null;
+    syncPanelFromSettings();
+  } else if (
+    settings.show.attract &&
+    !faceSeen &&
+    show.script() &&
+    show.state() !== "playing" &&
+    now - lastFaceAt > settings.show.idleSec * 1000
+  ) {
+    attractSnapshot ??= takeShowSnapshot();
+    show.play(now);
+  }
+
+  show.tick(now);
+
+  if (panelOpen) {
+    const duration = show.script()?.duration ?? 0;
+    showSeekSlider.max = String(duration || 1);
+    if (document.activeElement !== showSeekSlider) showSeekSlider.value = String(show.time());
+    showTimeLabel.textContent = `${formatShowTime(show.time())} / ${formatShowTime(duration)}`;
+    showPlayBtn.textContent = show.state() === "playing" ? "❚❚ Pause" : "▶ Play";
+  }
+}
+
+// 文本框改完（失焦）再解析，打字到一半不报错
+showScriptInput.addEventListener("change", () => {
+  loadShowScript(showScriptInput.value);
+});
+
+// 手动操作就不算 attract 了：之后有人走近也不会被打断
+showPlayBtn.addEventListener("click", () => {
+  attractSnapshot = null;
+  if (show.state() === "playing") show.pause();
+  else show.play(performance.now());
+});
+
+showStopBtn.addEventListener("click", () => {
+  attractSnapshot = null;
+  show.stop();
+  restoreOperatorSettings();
+});
+
+showSeekSlider.addEventListener("input", () => {
+  show.seek(Number(showSeekSlider.value));
+});
+
+showFileInput.addEventListener("change", async () => {
+  const file = showFileInput.files?.[0];
+  showFileInput.value = "";
+  if (!file) return;
+  try {
+    if (loadShowScript(await file.text())) applyShowUI();
+  } catch (err) {
+    console.error("Show script failed:", err);
+    showShowStatus(`Could not load: ${err instanceof Error ? err.message : err}`);
+  }
+});
+
+showAttractToggle.addEventListener("change", () => {
+  settings.show.attract = showAttractToggle.checked;
+  applyShowUI();
+});
+
+showIdleSlider.addEventListener("input", () => {
+  settings.show.idleSec = Number(showIdleSlider.value);
+  showIdleValue.textContent = String(settings.show.idleSec);
 });
 
-function applyColorModeUI() {
-  const isGlobal = settings.colorMode === "global";
-  globalColorRow.style.display = isGlobal ? "flex" : "none";
+// ?show=url：加载脚本并直接开始播
+function loadShowFromUrl(url: string) {
+  fetchShowScript(url)
+    .then((text) => {
+      if (!loadShowScript(text)) return;
+      applyShowUI();
+      persistSettings();
+      show.play(performance.now());
+    })
+    .catch((err) => {
+      console.error("Show script failed:", err);
+      showShowStatus("Could not load script from URL");
+    });
 }
 
-modeGlobal.addEventListener("change", () => {
-  if (!modeGlobal.checked) return;
-  settings.colorMode = "global";
-  applyColorModeUI();
+// --- UI: renderer (WebGL atlas for thousands of tokens, Canvas 2D fallback) ---
+function applyRenderer() {
+  const next = settings.renderer === "webgl" && glRenderer ? glRenderer : canvasRenderer;
+  if (next !== renderer) renderer.clear();
+  renderer = next;
+  rendererSelect.value = renderer.kind;
+
+  const budget = RENDER_BUDGETS[renderer.kind];
+  ORBIT.maxParticles = budget.maxParticles;
+  ORBIT.veilMaxCopies = budget.veilMaxCopies;
+}
+
+if (!glRenderer) {
+  rendererSelect.querySelector<HTMLOptionElement>('option[value="webgl"]')!.disabled = true;
+}
+
+rendererSelect.addEventListener("change", () => {
+  settings.renderer = rendererSelect.value as RendererKind;
+  applyRenderer();
 });
 
-modeRandom.addEventListener("change", () => {
-  if (!modeRandom.checked) return;
-  settings.colorMode = "random";
+// --- Persistence: restore saved settings into the controls, save on every change ---
+function syncPanelFromSettings() {
+  fontSizeSlider.value = String(settings.fontSize);
+  fontSizeValue.textContent = String(settings.fontSize);
+  setSpeed(settings.speedMultiplier);
+
+  modeGlobal.checked = settings.colorMode === "global";
+  modeRandom.checked = settings.colorMode === "random";
+  colorPicker.value = settings.globalColor;
   applyColorModeUI();
-});
 
-colorPicker.addEventListener("input", () => {
-  settings.globalColor = colorPicker.value;
-});
+  maxFacesSlider.value = String(settings.maxFaces);
+  maxFacesValue.textContent = String(settings.maxFaces);
+  targetNearest.checked = settings.targetMode === "nearest";
+  targetPoint.checked = settings.targetMode === "point";
+
+  brushTipsSelect.value = settings.brushTips;
+  captureBgSelect.value = settings.captureBackground;
+  applyLifetimeUI();
+  applyLayoutUI();
+  applyRingUI();
+  applyVeilUI();
+  applyOcclusionUI();
+  applyTuningUI();
+  applyPhysicsUI();
+  applyRemoteUI();
+  applyModerationUI();
+  applySpeechUI();
+  applyAudioUI();
+  applyShowUI();
+  applyTokenizeUI();
+  applyThemeUI();
+  applyRenderer();
+  persistToggle.checked = isPersistenceEnabled();
+}
 
-applyColorModeUI();
+syncPanelFromSettings();
+
+// 控件自己的 listener 先更新 settings，冒泡到 panel 时再统一保存
+panel.addEventListener("input", persistSettings);
+panel.addEventListener("change", persistSettings);
+
+persistToggle.addEventListener("change", () => {
+  setPersistenceEnabled(persistToggle.checked);
+  if (persistToggle.checked) {
+    persistSettings();
+    saveHistory(thoughtHistory);
+  }
+});
 
 let visionError: string | null = null;
 
+const loadStages = createLoadStages();
+
 // --- Camera ---
 async function startCamera() {
+  const stage = getStage(loadStages, "camera");
+  stage.state = "active";
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { facingMode: "user" },
+    audio: false,
+  });
+  video.srcObject = stream;
+  await video.play();
+  stage.state = "done";
+  stage.progress = 1;
+}
+
+let faceLandmarker: FaceLandmarker | null = null;
+let vision: Vision | null = null;
+let visionConfig: VisionConfig | null = null;
+
+// 分割模型只在选了 segmentation 遮挡时才加载
+let segmentation: SegmentationOccluder | null = null;
+const segmentStage = createSegmentStage();
+
+async function ensureSegmenter() {
+  if (segmentation || segmentStage.state === "active" || !vision || !visionConfig) return;
   try {
-    const stream = await navigator.mediaDevices.getUserMedia({
-      video: { facingMode: "user" },
-      audio: false,
-    });
-    video.srcObject = stream;
-    await video.play();
-    await initVision();
+    const pending = loadSegmenter(vision, visionConfig, segmentStage);
+    showOcclusionStatus();
+    segmentation = createSegmentationOccluder(await pending);
   } catch (err) {
-    visionError = String(err);
-    console.error("Startup failed:", err);
+    console.error("Segmentation unavailable:", err);
   }
+  showOcclusionStatus();
 }
-let faceLandmarker: FaceLandmarker | null = null;
-let handLandmarker: HandLandmarker | null = null;
+
+// 所有跟踪数据都从这里来（实时 MediaPipe 或录像回放），外面包一层 recorder
+let tracking: TrackingRecorder | null = null;
 
 async function initVision() {
-  const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> =>
-    Promise.race([
-      promise,
-      new Promise<T>((_, reject) =>
-        setTimeout(() => reject(new Error(`Timeout: ${label} exceeded ${ms}ms`)), ms)
-      ),
+  const config = resolveVisionConfig(settings.maxFaces, 2);
+  const loaded = await loadVision(config, loadStages);
+  vision = loaded;
+  visionConfig = config;
+  faceLandmarker = loaded.faceLandmarker;
+  tracking = createRecorder(
+    createMediaPipeSource(video, loaded.faceLandmarker, loaded.handLandmarker)
+  );
+  trackingStatus.textContent = `live (${loaded.delegate})`;
+
+  if (settings.occlusion === "segmentation") void ensureSegmenter();
+}
+
+function startReplay(session: TrackingSession) {
+  tracking = createRecorder(createReplaySource(session));
+  visionError = null;
+  for (const s of loadStages) {
+    s.state = "done";
+    s.progress = 1;
+    s.detail = "replay";
+  }
+  trackingStatus.textContent = `replaying ${session.frames.length} frames`;
+  showOcclusionStatus();
+}
+
+// 摄像头和模型并行加载，任何一步失败都显示在加载界面上
+//   ?replay=/sessions/demo.json 直接回放录好的 landmarks，不需要摄像头
+//   ?moderation=/moderation.json 启动时加载过滤规则（展台机器不用手动导入）
+//   ?preset=Calm 或 ?preset=/presets/lobby.json 直接用某套物理参数
+//   ?show=/shows/lobby.txt 加载演出脚本并开始播
+async function startup() {
+  const params = new URLSearchParams(window.location.search);
+  const replayUrl = params.get("replay");
+  const moderationUrl = params.get("moderation");
+  const presetRef = params.get("preset");
+  const showUrl = params.get("show");
+  if (presetRef) loadPhysicsPresetFromUrl(presetRef);
+  if (showUrl) loadShowFromUrl(showUrl);
+  else if (settings.show.script) loadShowScript(settings.show.script);
+  // 上次开着的话接着听（没点过页面前 AudioContext 是暂停的，状态里会提示）
+  startAudio();
+  if (moderationUrl) {
+    fetchModerationRules(moderationUrl)
+      .then(replaceModerationRules)
+      .catch((err) => {
+        console.error("Moderation rules failed:", err);
+        showModerationStatus("Could not load rules from URL");
+      });
+  }
+  try {
+    if (replayUrl) {
+      startReplay(await fetchSession(replayUrl));
+      return;
+    }
+
+    await Promise.all([
+      startCamera().catch((err) => {
+        getStage(loadStages, "camera").state = "error";
+        throw err;
+      }),
+      initVision(),
     ]);
+  } catch (err) {
+    visionError = String(err);
+    console.error("Startup failed:", err);
+  }
+}
 
-  const vision = await withTimeout(
-    FilesetResolver.forVisionTasks("/wasm"),
-    15000,
-    "FilesetResolver"
-  );
+recordTrackingBtn.addEventListener("click", () => {
+  if (!tracking) return;
+  if (tracking.recording()) {
+    downloadSession(tracking.stop());
+    recordTrackingBtn.textContent = "● Record";
+  } else {
+    tracking.start();
+    recordTrackingBtn.textContent = "■ Stop & save";
+  }
+});
 
-  faceLandmarker = await withTimeout(
-    FaceLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath:
-          "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
-        delegate: "GPU",
-      },
-      runningMode: "VIDEO",
-      numFaces: 1,
-    }),
-    30000,
-    "FaceLandmarker"
-  );
+replayFileInput.addEventListener("change", async () => {
+  const file = replayFileInput.files?.[0];
+  replayFileInput.value = "";
+  if (!file) return;
+  try {
+    startReplay(parseSession(JSON.parse(await file.text())));
+  } catch (err) {
+    console.error("Replay failed:", err);
+  }
+});
 
-  handLandmarker = await withTimeout(
-    HandLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath:
-          "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-        delegate: "GPU",
-      },
-      runningMode: "VIDEO",
-      numHands: 2,
-    }),
-    30000,
-    "HandLandmarker"
-  );
+function drawLoadingScreen() {
+  ctx.font = "16px system-ui";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+
+  const barW = 160;
+  let y = 30;
+  for (const s of loadStages) {
+    const mark = s.state === "done" ? "✓" : s.state === "error" ? "✕" : s.state === "active" ? "…" : "·";
+    ctx.globalAlpha = s.state === "pending" ? 0.5 : 1;
+    ctx.fillStyle = s.state === "error" ? "#ff4444" : settings.globalColor;
+    ctx.fillText(`${mark} ${s.label}`, 20, y);
+
+    ctx.globalAlpha *= 0.35;
+    ctx.fillRect(180, y - 9, barW, 4);
+    ctx.globalAlpha = s.state === "pending" ? 0.5 : 1;
+    ctx.fillRect(180, y - 9, barW * s.progress, 4);
+
+    if (s.detail) {
+      ctx.globalAlpha = 0.7;
+      ctx.font = "12px system-ui";
+      ctx.fillText(s.detail, 180 + barW + 12, y);
+      ctx.font = "16px system-ui";
+    }
+    y += 26;
+  }
+  ctx.globalAlpha = 1;
 
-  console.log("Vision ready");
+  if (visionError) {
+    ctx.fillStyle = "#ff4444";
+    ctx.fillText("Error: " + visionError, 20, y + 8);
+  }
 }
 
 function getFaceCenter(faceLandmarks: { x: number; y: number }[]) {
@@ -170,226 +2064,166 @@ function getFaceCenter(faceLandmarks: { x: number; y: number }[]) {
   return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
 }
 
+// 每次 commit 都是一条 entry；粒子通过 entryId 指回来源
+const thoughtHistory: StoredEntry[] = [];
+let nextEntryId = 1;
 
-type Particle = {
-  id: number;
-  token: string;
-  color: string;
-
-  kind: "orbit" | "veil";
-  u: number;
-  biasY: number;
-
-  vx: number;   // ✅ 新增
-  vy: number;   // ✅ 新增
-  vx0: number; // ✅ 原位（初始位置）
-  vy0: number;
-  theta: number;
-  lane: number;
-  radiusOffset: number;
-  omegaOffset: number;
-  omegaBase: number;
-  bornAt: number;
-};
-
-let nextId = 1;
-let orbitCounter = 0;
-
-let lastCommittedText = "";
-
-// ✅ 分开存
-const orbitParticles: Particle[] = [];
-const veilParticles: Particle[] = [];
-
-function clearAll() {
-  orbitParticles.length = 0;
-  veilParticles.length = 0;
-  nextId = 1;
-  orbitCounter = 0;
-
-  lastCommittedText = ""; // ✅ 新增
+function findEntry(id: number) {
+  return thoughtHistory.find((e) => e.id === id);
 }
-const ORBIT_MAX_LANES = 12; // orbit 最多 8 圈（可调 6~10）
-const ORBIT = {
-  laneGap: 26,
-  laneCapacity: 16,
-  maxParticles: 600,
-  baseRScale: 0.85,
 
-  // brush
-  influenceRadius: 90,
-  repelStrength: 140,   // px/s^2-ish (we apply per frame)
-  swirlStrength: 3.2,   // rad/s
-  // decay (seconds)
-  tauRadius: 1.2,
-  tauOmega: 0.9,
-
-  // ellipse shape
-  ellipseYScale: 0.92,
-
-  veilPush: 220,      // 推开强度（越大越“拨开”）
-  veilReturnTau: 2.4, // 回流时间（秒，越大回得越慢）
-
-  veilDriftAmp: 0.09,   // ✅ veil 内部漂移幅度（0.03~0.09 调）
-veilDriftFreq: 1.4,   // ✅ 漂移频率倍率（跟 speed 一起生效）
+// --- Heads: one per tracked face, each with its own orbit + veil ---
+type Head = {
+  id: number;
 
+  // 平滑后的锚点（屏幕 CSS px）
+  x: number;
+  y: number;
+  faceWidthPx: number;
+  faceHeightPx: number;
+  angles: HeadAngles; // 平滑后的 yaw / pitch / roll
+
+  visible: boolean;  // 这一帧是否检测到
+  lastSeen: number;  // 0 = 还没被跟踪过（启动时的占位）
+  lm: { x: number; y: number }[] | null;
+  opacity: number;   // 丢脸后保持 -> 淡出，重新锁定时淡入（乘到所有粒子的 alpha 上）
+
+  // One-Euro：锚点 + 脸宽 / 脸高 + 三个角度
+  filters: {
+    pos: ReturnType<typeof createOneEuro2D>;
+    w: OneEuro;
+    h: OneEuro;
+    angles: Record<keyof HeadAngles, OneEuroAngle>;
+  };
+
+  cloud: ParticleCloud;
 };
 
-function enforceCaps() {
-  // 你原来的总上限
-  const MAX_TOTAL = ORBIT.maxParticles;
-
-  // orbit 的“预算”：最多保留这么多（避免无限增长）
-  const orbitSlots = ORBIT.laneCapacity * ORBIT_MAX_LANES;
-  const MAX_ORBITS = orbitSlots;
-
-  // 1) 先限制 orbit 自身不要无限长
-  if (orbitParticles.length > MAX_ORBITS) {
-    orbitParticles.splice(0, orbitParticles.length - MAX_ORBITS);
-  }
-
-  // 2) 再限制总量：超了先砍 veil
-  let total = orbitParticles.length + veilParticles.length;
-  if (total <= MAX_TOTAL) return;
-
-  let excess = total - MAX_TOTAL;
-
-  // ✅ 先砍 veil（关键）
-  if (veilParticles.length >= excess) {
-    veilParticles.splice(0, excess);
-    return;
-  }
-
-  // 如果 veil 不够砍，再砍 orbit（一般不会发生）
-  excess -= veilParticles.length;
-  veilParticles.length = 0;
-  orbitParticles.splice(0, Math.min(excess, orbitParticles.length));
+const HEAD_DEFAULT_W = 220;
+const HEAD_DEFAULT_H = 260;
+const HEAD_MATCH_GATE = 1.5; // 匹配半径 = 脸宽 * gate
+
+let nextHeadId = 1;
+
+function createHead(x: number, y: number): Head {
+  return {
+    id: nextHeadId++,
+    x,
+    y,
+    faceWidthPx: HEAD_DEFAULT_W,
+    faceHeightPx: HEAD_DEFAULT_H,
+    angles: { ...NO_ROTATION },
+    visible: false,
+    lastSeen: 0,
+    lm: null,
+    opacity: 1,
+    filters: {
+      pos: createOneEuro2D(settings.tracking.head),
+      w: createOneEuro(settings.tracking.size),
+      h: createOneEuro(settings.tracking.size),
+      angles: {
+        yaw: createOneEuroAngle(settings.tracking.angles),
+        pitch: createOneEuroAngle(settings.tracking.angles),
+        roll: createOneEuroAngle(settings.tracking.angles),
+      },
+    },
+    cloud: createCloud(),
+  };
 }
 
-function tokenizeMixed(text: string) {
-  const wordSeg = new Intl.Segmenter("en", { granularity: "word" });
-  const graphemeSeg = new Intl.Segmenter("und", { granularity: "grapheme" });
-
-  const out: string[] = [];
-
-  for (const seg of wordSeg.segment(text)) {
-    const s = seg.segment;
+// 启动时先放一个居中的占位 head，第一张脸出现时直接接管它
+const heads: Head[] = [createHead(window.innerWidth * 0.5, window.innerHeight * 0.45)];
 
-    // 过滤纯空白
-    if (!s.trim()) continue;
-
-    // 如果是“像单词”的英文片段：整词保留
-    const isSimpleEnglishWord =
-      (seg as any).isWordLike &&
-      /^[A-Za-z0-9]+(?:['’][A-Za-z0-9]+)*$/.test(s);
+function clearAll() {
+  grabbed = null;
+  for (const h of heads) clearCloud(h.cloud);
 
-    if (isSimpleEnglishWord) {
-      out.push(s);
-      continue;
-    }
+  thoughtHistory.length = 0;
+  saveHistory(thoughtHistory);
+  renderHistoryList();
+}
 
-    // 其他情况（中文、emoji、混合、标点等）用 grapheme 保持细粒度
-    for (const g of graphemeSeg.segment(s)) {
-      const t = g.segment;
-      if (t.trim()) out.push(t);
-    }
-  }
+// 用一个离屏 canvas 把任意 CSS 颜色规范成 #rrggbb（<input type="color"> 只认这个）
+const colorProbe = document.createElement("canvas").getContext("2d")!;
 
-  return out;
+function toHexColor(css: string) {
+  colorProbe.fillStyle = "#000000";
+  colorProbe.fillStyle = css;
+  return colorProbe.fillStyle;
 }
 
 function randomEntryColor() {
   const h = Math.floor(Math.random() * 360);
-  return `hsl(${h} 80% 70%)`;
+  return toHexColor(`hsl(${h} 80% 70%)`);
 }
 
-function enqueueTokens(text: string) {
-  const tokens = tokenizeMixed(text);
-  const now = performance.now();
-  const entryColor = randomEntryColor();
-
-  for (const t of tokens) {
-    // ✅ 1) 始终生成 1 个 orbit（保持 3D）
-    const orbitSlots = ORBIT.laneCapacity * ORBIT_MAX_LANES;
-    const iOrbit = orbitCounter++ % orbitSlots; // ✅ wrap，永远不会越打越大
-    const lane = Math.floor(iOrbit / ORBIT.laneCapacity);
-    const idxInLane = iOrbit % ORBIT.laneCapacity;
-
-    const theta0 =
-      (idxInLane / ORBIT.laneCapacity) * Math.PI * 2 +
-      (Math.random() - 0.5) * 0.08;
-
-    orbitParticles.push({
-      id: nextId++,
-      token: t,
-      color: entryColor,
-
-      kind: "orbit",
-      u: 0,
-      biasY: 0,
-
-      vx: 0,
-      vy: 0,
-      vx0: 0, // ✅ 补齐，避免 TS 报错
-      vy0: 0,
-
-      theta: theta0,
-      lane,
-      radiusOffset: 0,
-      omegaOffset: 0,
-      omegaBase: 0.9,
-      bornAt: now,
-    });
+function deleteEntry(id: number) {
+  if (grabbed?.p.entryId === id) grabbed = null;
+  for (const h of heads) removeEntry(h.cloud, id);
 
-    // ✅ 2) veil：数量随“orbitCounter”（而不是 particles.length）变化，避免 veil 反向影响密度判断
-    const density = Math.min(1, orbitCounter / 200); // 0..1（可调：200~350）
-    const veilCopies = 2 + Math.floor(6 * density);  // 2..8（可调）
-
-    for (let k = 0; k < veilCopies; k++) {
-  // ✅ 每个 veil 粒子自己的 y 偏移
-  const biasY = -0.65 + Math.random() * 0.35;
-
-  // ✅ 椭圆内部均匀采样（覆盖脸用这个最稳）
-  const r = Math.sqrt(Math.random());
-  const ang = Math.random() * Math.PI * 2;
-  const vx = r * Math.cos(ang);
-  const vy = r * Math.sin(ang);
-
-  // ✅ u 建议先直接等于 r（和位置一致，alpha 才自然）
-  const u = r;
-
-  veilParticles.push({
-    id: nextId++,
-    token: t,
-    color: entryColor,
-
-    kind: "veil",
-    u,
-    biasY,
-
-    vx,
-    vy,
-    vx0: vx,
-    vy0: vy,
-
-    theta: Math.random() * Math.PI * 2,
-    lane: 0,
-    radiusOffset: 0,
-    omegaOffset: 0,
-    omegaBase: 0.45,
-    bornAt: now,
-  });
+  const i = thoughtHistory.findIndex((e) => e.id === id);
+  if (i >= 0) thoughtHistory.splice(i, 1);
+  saveHistory(thoughtHistory);
+  renderHistoryList();
+}
+
+function resendEntry(id: number) {
+  const entry = findEntry(id);
+  if (!entry) return;
+  enqueueTokens(pickTargetHead().cloud, tokenize(entry.text, settings.tokenize), entry, performance.now(), settings.layout.groupThoughts);
 }
-  }
 
-  // cap（可保留）
- enforceCaps();
+function recolorEntryTo(id: number, color: string) {
+  const entry = findEntry(id);
+  if (!entry) return;
+  entry.color = color;
+  entry.customColor = true;
+  for (const h of heads) recolorEntry(h.cloud, id, color);
+  saveHistory(thoughtHistory);
 }
 
-function expDecay(value: number, dt: number, tau: number) {
-  // dt in seconds
-  const k = Math.exp(-dt / Math.max(0.0001, tau));
-  return value * k;
+// --- UI: history list (newest first) ---
+function renderHistoryList() {
+  historyList.replaceChildren();
+  historyEmpty.hidden = thoughtHistory.length > 0;
+
+  for (const entry of thoughtHistory.slice().reverse()) {
+    const row = document.createElement("div");
+    row.className = "history__item";
+
+    const swatch = document.createElement("input");
+    swatch.type = "color";
+    swatch.className = "history__color";
+    swatch.value = toHexColor(entry.color);
+    swatch.title = "Change colour";
+    swatch.addEventListener("input", () => recolorEntryTo(entry.id, swatch.value));
+
+    const text = document.createElement("span");
+    text.className = "history__text";
+    text.textContent = entry.text;
+    text.title = `${entry.text}\n${new Date(entry.at).toLocaleString()}`;
+
+    const time = document.createElement("span");
+    time.className = "history__time";
+    time.textContent = new Date(entry.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+    const resend = document.createElement("button");
+    resend.type = "button";
+    resend.className = "history__btn";
+    resend.textContent = "↻";
+    resend.title = "Send again";
+    resend.addEventListener("click", () => resendEntry(entry.id));
+
+    const del = document.createElement("button");
+    del.type = "button";
+    del.className = "history__btn";
+    del.textContent = "✕";
+    del.title = "Delete";
+    del.addEventListener("click", () => deleteEntry(entry.id));
+
+    row.append(swatch, text, time, resend, del);
+    historyList.append(row);
+  }
 }
 
 function buildHeadMaskPts(
@@ -398,10 +2232,12 @@ function buildHeadMaskPts(
   headY: number,
   faceHeightPx: number
 ) {
-  const inflateX = 1.18;
-  const inflateY = 1.45;
-  const hairLift = -faceHeightPx * 0.10;
+  // 让遮罩比“脸”更像“头”（包含头发）
+  const inflateX = 1.18;              // 宽一点
+  const inflateY = 1.45;              // 高很多（包含头发）
+  const hairLift = -faceHeightPx * 0.10; // 整体再往上提一点点
 
+  // 用脸中心当作“局部坐标系原点”
   const center = getFaceCenter(lm);
   const c = mapNormToScreen(center.x, center.y);
 
@@ -412,6 +2248,7 @@ function buildHeadMaskPts(
     const dx = p.x - c.x;
     const dy = p.y - c.y;
 
+    // 把 face-oval 点围绕 headX/headY 重新“放大”成头的轮廓
     pts.push({
       x: headX + dx * inflateX,
       y: headY + dy * inflateY + hairLift,
@@ -421,20 +2258,15 @@ function buildHeadMaskPts(
   return pts;
 }
 
-function boundsOfPts(pts: { x: number; y: number }[]) {
-  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-  for (const p of pts) {
-    if (p.x < minX) minX = p.x;
-    if (p.y < minY) minY = p.y;
-    if (p.x > maxX) maxX = p.x;
-    if (p.y > maxY) maxY = p.y;
-  }
-  return { minX, minY, maxX, maxY };
+// 跟踪源的画面尺寸（回放时没有摄像头，用录像里存的尺寸）
+function sourceSize() {
+  return tracking
+    ? tracking.frameSize()
+    : { width: video.videoWidth, height: video.videoHeight };
 }
 
 function mapNormToScreen(nx: number, ny: number) {
-  const vw = video.videoWidth;
-  const vh = video.videoHeight;
+  const { width: vw, height: vh } = sourceSize();
   const sw = window.innerWidth;
   const sh = window.innerHeight;
 
@@ -457,42 +2289,6 @@ function mapNormToScreen(nx: number, ny: number) {
   return { x, y };
 }
 
-function buildHeadMaskPath(
-  lm: { x: number; y: number }[],
-  headX: number,
-  headY: number,
-  faceHeightPx: number
-) {
-  // 让遮罩比“脸”更像“头”（包含头发）
-  const inflateX = 1.18;              // 宽一点
-  const inflateY = 1.45;              // 高很多（包含头发）
-  const hairLift = -faceHeightPx * 0.10; // 整体再往上提一点点
-
-  // 用脸中心当作“局部坐标系原点”
-  const center = getFaceCenter(lm);
-  const c = mapNormToScreen(center.x, center.y);
-
-  const path = new Path2D();
-
-  for (let i = 0; i < FACE_OVAL.length; i++) {
-    const idx = FACE_OVAL[i];
-    const p = mapNormToScreen(lm[idx].x, lm[idx].y);
-
-    const dx = p.x - c.x;
-    const dy = p.y - c.y;
-
-    // 把 face-oval 点围绕 headX/headY 重新“放大”成头的轮廓
-    const x = headX + dx * inflateX;
-    const y = headY + dy * inflateY + hairLift;
-
-    if (i === 0) path.moveTo(x, y);
-    else path.lineTo(x, y);
-  }
-
-  path.closePath();
-  return path;
-}
-
 // --- Canvas resize ---
 function resizeCanvas() {
   const dpr = window.devicePixelRatio || 1;
@@ -503,61 +2299,36 @@ function resizeCanvas() {
   canvas.style.width = `${window.innerWidth}px`;
   canvas.style.height = `${window.innerHeight}px`;
   ctx.setTransform(dpr, 0, 0, dpr, 0, 0); // draw in CSS pixels
+
+  // WebGL 层同样的设备像素尺寸（shader 里用 CSS px 的 viewport 换算）
+  glCanvas.width = w;
+  glCanvas.height = h;
 }
 window.addEventListener("resize", resizeCanvas);
 
-let headX = window.innerWidth * 0.5;
-let headY = window.innerHeight * 0.45;
-
 let lastT = performance.now();
 
-function getParticleColor(p: Particle) {
-  return settings.colorMode === "global" ? settings.globalColor : p.color;
-}
-
-// --- Temporary render loop (shows settings are live) ---
-function draw() {
-  // 用 CSS 像素绘制（因为你前面 setTransform(dpr,...) 了）
-  ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
+// 最近一帧的食指指尖（用于“指向某个人”来选择目标）
+let finger: { x: number; y: number } | null = null;
 
-  // 如果 vision 还没准备好，就先显示一句提示
- if (!faceLandmarker || !handLandmarker || video.readyState < 2) {
-  ctx.font = "16px system-ui";
-  ctx.fillStyle = "#ff4444";
-  if (visionError) {
-    ctx.fillText("Error: " + visionError, 20, 30);
-  } else {
-    ctx.fillStyle = settings.globalColor;
-    ctx.fillText("Loading vision models…", 20, 30);
-  }
-  requestAnimationFrame(draw);
-  return;
+function getParticleColor(p: Particle) {
+  // 在 history 里单独改过颜色的 entry 不跟随全局颜色，也不跟随主题的调色板
+  const custom = findEntry(p.entryId)?.customColor;
+  if (custom) return p.color;
+  const entryColor = settings.colorMode === "global" ? settings.globalColor : p.color;
+  return themeColor(settings.theme, p, entryColor);
 }
 
-  const now = performance.now();
-
-  const faceRes = faceLandmarker.detectForVideo(video, now);
-  const handRes = handLandmarker.detectForVideo(video, now);
-
-  // --- get head center + face size (px) ---
-
-let faceWidthPx = 220;
-let faceHeightPx = 260;
-
-if (faceRes.faceLandmarks?.length) {
-  const lm = faceRes.faceLandmarks[0];
-  // ✅ 用脸中心更新 headX/headY（全局变量）
-  const center = getFaceCenter(lm);
-const c = mapNormToScreen(center.x, center.y);
-
-// ✅ 关键：把锚点从“脸中心”抬到“头部中心”
-const headOffsetY = -faceHeightPx * 0.05; // 可调：-0.12 ~ -0.28
-const targetX = c.x;
-const targetY = c.y + headOffsetY;
+type FaceObservation = {
+  lm: { x: number; y: number }[];
+  x: number;
+  y: number;
+  faceWidthPx: number;
+  faceHeightPx: number;
+  angles: HeadAngles;
+};
 
-const smooth = 0.35;
-headX = headX + (targetX - headX) * smooth;
-headY = headY + (targetY - headY) * smooth;
+function observeFace(lm: { x: number; y: number }[], matrix?: number[]): FaceObservation {
   // bbox in normalized space
   let minX = 1, maxX = 0, minY = 1, maxY = 0;
   for (const p of lm) {
@@ -568,261 +2339,465 @@ headY = headY + (targetY - headY) * smooth;
   }
 
   // cover scale (与 mapNormToScreen 保持一致)
-  const vw = video.videoWidth;
-  const vh = video.videoHeight;
+  const { width: vw, height: vh } = sourceSize();
   const sw = window.innerWidth;
   const sh = window.innerHeight;
   const scale = Math.max(sw / vw, sh / vh);
 
-  faceWidthPx  = (maxX - minX) * vw * scale;
-  faceHeightPx = (maxY - minY) * vh * scale;
+  const faceWidthPx = Math.max(160, Math.min(460, (maxX - minX) * vw * scale));
+  const faceHeightPx = Math.max(200, Math.min(520, (maxY - minY) * vh * scale));
 
-  faceWidthPx  = Math.max(160, Math.min(460, faceWidthPx));
-  faceHeightPx = Math.max(200, Math.min(520, faceHeightPx));
-}
+  // ✅ 用脸中心，再把锚点从“脸中心”抬到“头部中心”
+  const center = getFaceCenter(lm);
+  const c = mapNormToScreen(center.x, center.y);
+  const headOffsetY = -faceHeightPx * 0.05; // 可调：-0.12 ~ -0.28
 
-let headBounds: { minX: number; minY: number; maxX: number; maxY: number } | null = null;
+  const angles = matrix?.length === 16 ? anglesFromFaceMatrix(matrix) : NO_ROTATION;
 
-if (faceRes.faceLandmarks?.length) {
-  const lm = faceRes.faceLandmarks[0];
-  headMaskPts = buildHeadMaskPts(lm, headX, headY, faceHeightPx);
-  headBounds = boundsOfPts(headMaskPts);
+  return { lm, x: c.x, y: c.y + headOffsetY, faceWidthPx, faceHeightPx, angles };
 }
 
-let headMaskPath: Path2D | null = null;
-if (faceRes.faceLandmarks?.length) {
-  const lm = faceRes.faceLandmarks[0];
-  headMaskPath = buildHeadMaskPath(lm, headX, headY, faceHeightPx);
+// 保持期过了的人（已经在淡出）：任何没匹配上的脸都可以把 ta 接回来
+function isFading(h: Head, now: number) {
+  return h.lastSeen > 0 && !h.visible && now - h.lastSeen > settings.tracking.graceSec * 1000;
 }
 
-// --- get index fingertip (screen) ---
-let finger: { x: number; y: number } | null = null;
-if (handRes.landmarks?.length) {
-  const tip = handRes.landmarks[0][8];
-  finger = mapNormToScreen(tip.x, tip.y);
-}
-
-// --- update + draw orbit particles ---
-const dt = Math.min(0.05, (now - lastT) / 1000);
-lastT = now;
-
-const baseR = faceWidthPx * (ORBIT.baseRScale ?? 0.55);
-
-// ✅ 先算 headRx/headRy（后面 drawable 要用）
-const headRx = faceWidthPx * 0.60;  // 原 0.55
-const headRy = faceHeightPx * 0.68; // 原 0.62
-const veilRx = headBounds
-  ? ((headBounds.maxX - headBounds.minX) * 0.5) * 1.01
-  : headRx * 1.08;
-
-const veilRy = headBounds
-  ? ((headBounds.maxY - headBounds.minY) * 0.5) * 1.01
-  : headRy * 1.12;
-const allParticles = orbitParticles.concat(veilParticles);
-
-const drawable = allParticles.map((p) => {
-  let x = headX;
-  let y = headY;
-
-  if (p.kind === "orbit") {
-    const laneR = baseR + p.lane * ORBIT.laneGap + p.radiusOffset;
-    const a = laneR;
-    const b = laneR * ORBIT.ellipseYScale;
-    x = headX + a * Math.cos(p.theta);
-    y = headY + b * Math.sin(p.theta);
-  } else {
-  // ✅ veil：顺时针持续旋转（由 p.theta 驱动，speed slider 会影响 p.theta）
-  const phi = p.theta; // 方向反了就改成 -p.theta
-  const c = Math.cos(phi);
-  const s = Math.sin(phi);
-
-  // 用“当前被交互影响后的局部坐标”来旋转（关键）
-  const vx = p.vx;
-  const vy = Math.max(-0.95, Math.min(0.95, p.vy)); // clamp 生效
-
-  // 前向旋转：局部(vx,vy) -> 旋转后的(rvx,rvy)
-  const rvx = vx * c - vy * s;
-  const rvy = vx * s + vy * c;
-
-  x = headX + veilRx * rvx;
-  y = headY + veilRy * rvy + (p.biasY * veilRy * 0.12);
+function applyObservation(h: Head, o: FaceObservation, now: number) {
+  // 第一次锁定 / 淡出后重新接管时直接跳过去（此时是透明的，之后淡入），否则交给 One-Euro
+  const jump = !h.lastSeen || isFading(h, now);
+  if (jump) {
+    h.filters.pos.reset();
+    h.filters.w.reset();
+    h.filters.h.reset();
+    for (const f of Object.values(h.filters.angles)) f.reset();
   }
 
-  const depth = Math.sin(p.theta);
-  return { p, x, y, depth };
-});
-
-// Brush interaction (repel + slight swirl)
-if (finger) {
-  for (const d of drawable) {
-    const dx = d.x - finger.x;
-    const dy = d.y - finger.y;
-    const dist = Math.hypot(dx, dy);
-
-    if (dist < ORBIT.influenceRadius) {
-      const t = 1 - dist / ORBIT.influenceRadius;
+  const p = h.filters.pos.filter(o, now);
+  h.x = p.x;
+  h.y = p.y;
+  h.faceWidthPx = h.filters.w.filter(o.faceWidthPx, now);
+  h.faceHeightPx = h.filters.h.filter(o.faceHeightPx, now);
+  const { angles } = h.filters;
+  h.angles = {
+    yaw: angles.yaw.filter(o.angles.yaw, now),
+    pitch: angles.pitch.filter(o.angles.pitch, now),
+    roll: angles.roll.filter(o.angles.roll, now),
+  };
+  h.lm = o.lm;
+  h.visible = true;
+  h.lastSeen = now;
+}
 
-      if (d.p.kind === "veil") {
-  const nx = dx / (dist + 1e-6);
-  const ny = dy / (dist + 1e-6);
+// 把这一帧的脸和已有的 head 做最近邻匹配，保证身份跨帧稳定
+function updateHeads(frame: TrackingFrame, now: number, dt: number) {
+  const obs = frame.faces
+    .slice(0, settings.maxFaces)
+    .map((lm, i) => observeFace(lm, frame.faceMatrices[i]));
+
+  const pairs: { h: Head; o: FaceObservation; d: number }[] = [];
+  for (const h of heads) {
+    const gate = h.lastSeen && !isFading(h, now)
+      ? Math.max(h.faceWidthPx, HEAD_DEFAULT_W) * HEAD_MATCH_GATE
+      : Infinity;
+    for (const o of obs) {
+      const d = Math.hypot(o.x - h.x, o.y - h.y);
+      if (d <= gate) pairs.push({ h, o, d });
+    }
+  }
+  pairs.sort((a, b) => a.d - b.d);
+
+  const matchedHeads = new Set<Head>();
+  const matchedObs = new Set<FaceObservation>();
+  for (const { h, o } of pairs) {
+    if (matchedHeads.has(h) || matchedObs.has(o)) continue;
+    matchedHeads.add(h);
+    matchedObs.add(o);
+    applyObservation(h, o, now);
+  }
 
-  // push in screen space (CSS px)
-  const pushPx = ORBIT.veilPush * t * dt;
+  for (const o of obs) {
+    if (matchedObs.has(o)) continue;
+    const h = createHead(o.x, o.y);
+    applyObservation(h, o, now);
+    heads.push(h);
+  }
 
-  // ✅ 关键：把“屏幕推力”转成“veil局部(vx/vy)推力”
-  const phi = d.p.theta; // 与你 draw 里用的旋转角保持一致
-  const c = Math.cos(phi);
-  const s = Math.sin(phi);
+  const tune = settings.tracking;
+  for (const h of heads) {
+    if (matchedHeads.has(h) || h.lastSeen === now) {
+      h.opacity = tune.relockSec > 0 ? Math.min(1, h.opacity + dt / tune.relockSec) : 1;
+      continue;
+    }
 
-  // 屏幕位移 -> 归一化到椭圆坐标
-  const lx = (nx * pushPx) / (veilRx + 1e-6);
-  const ly = (ny * pushPx) / (veilRy + 1e-6);
+    // 丢了：保持期内位置 / 大小 / 遮罩原地不动，之后慢慢淡出
+    h.visible = false;
+    if (!h.lastSeen) continue; // 启动时的占位不淡出
+    const lostSec = (now - h.lastSeen) / 1000;
+    if (lostSec > tune.graceSec) {
+      h.lm = null;
+      h.opacity = Math.min(h.opacity, Math.max(0, 1 - (lostSec - tune.graceSec) / tune.fadeSec));
+    }
+  }
 
-  // 逆旋转（rotation matrix transpose）
-  const dvx = c * lx + s * ly;
-  const dvy = -s * lx + c * ly;
+  // 淡完的人连同 ta 的文字一起移除（至少保留一个 head，下次有脸时接管）
+  for (let i = heads.length - 1; i >= 0 && heads.length > 1; i--) {
+    const h = heads[i];
+    if (isFading(h, now) && h.opacity <= 0) removeHead(i);
+  }
+}
 
-  d.p.vx += dvx;
-  d.p.vy += dvy;
+function removeHead(i: number) {
+  const [gone] = heads.splice(i, 1);
+  if (grabbed?.head === gone) grabbed = null;
+  pruneHistory();
+}
 
-  // ✅ 限制范围，避免飞太远（建议更紧一点）
-  d.p.vx = Math.max(-1.2, Math.min(1.2, d.p.vx));
-  d.p.vy = Math.max(-0.95, Math.min(0.95, d.p.vy));
-} else {
-        // ✅ orbit：保持你原来的推开逻辑
-        d.p.radiusOffset += ORBIT.repelStrength * t * dt;
-        d.p.omegaOffset += ORBIT.swirlStrength * t * dt;
-      }
-    }
+// 历史里只留还有字在画面上的 entry：寿命到了 / 被挤掉 / 跟着淡完的 head 走了的都删掉，
+// 不然刷新后 restoreHistory 又把已经消散的字放回来
+function pruneHistory() {
+  const onScreen = new Set<number>();
+  for (const h of heads) for (const p of h.cloud.orbitParticles) onScreen.add(p.entryId);
+  const before = thoughtHistory.length;
+  for (let j = thoughtHistory.length - 1; j >= 0; j--) {
+    if (!onScreen.has(thoughtHistory[j].id)) thoughtHistory.splice(j, 1);
   }
+  if (thoughtHistory.length === before) return;
+  saveHistory(thoughtHistory);
+  renderHistoryList();
 }
 
-// Update angles + decay
-for (const d of drawable) {
-  const p = d.p;
-  p.radiusOffset = expDecay(p.radiusOffset, dt, ORBIT.tauRadius);
-  p.omegaOffset = expDecay(p.omegaOffset, dt, ORBIT.tauOmega);
+// 新文字发给谁：离镜头最近的人（脸最大），或者食指指向的那个人
+function pickTargetHead(): Head {
+  const visible = heads.filter((h) => h.visible);
+  const pool = visible.length ? visible : heads;
 
-  const omega = (p.omegaBase * settings.speedMultiplier) + p.omegaOffset;
-  p.theta += omega * dt;
-  if (p.kind === "veil") {
-  // ✅ speed 会影响 p.theta（你上面 omega 里已经 * settings.speedMultiplier 了）
-  // 所以只要 drift 用 theta，就天然被 speed 控制
-  const phase = p.theta * (ORBIT.veilDriftFreq ?? 1);
+  if (settings.targetMode === "point" && finger) {
+    const f = finger;
+    return pool.reduce((best, h) =>
+      Math.hypot(h.x - f.x, h.y - f.y) < Math.hypot(best.x - f.x, best.y - f.y) ? h : best
+    );
+  }
 
-  // ✅ 越靠外圈(u 越大)漂移稍微更明显一点（你也可以反过来）
-  const amp = (ORBIT.veilDriftAmp ?? 0.06) * (0.35 + 0.65 * p.u);
+  return pool.reduce((best, h) => (h.faceWidthPx > best.faceWidthPx ? h : best));
+}
 
-  // ✅ 用 id 做去同步，避免所有字一起晃
-  const j = p.id * 0.37;
+// 把 head 转成 simulation 需要的姿态（屏幕 px）
+// （丢脸时保持最后的大小 / 朝向，不再跳回默认尺寸）
+function headPose(h: Head): HeadPose {
+  return {
+    x: h.x,
+    y: h.y,
+    faceWidthPx: h.faceWidthPx,
+    faceHeightPx: h.faceHeightPx,
+    maskPts: h.lm ? buildHeadMaskPts(h.lm, h.x, h.y, h.faceHeightPx) : null,
+    angles: h.angles,
+  };
+}
 
-  // ✅ “移动的原位”目标点（一直在缓慢漂）
-  const targetVx = p.vx0 + amp * Math.cos(phase + j);
-  const targetVy = p.vy0 + amp * Math.sin(phase * 0.9 + j);
+const FALLBACK_MASK_STEPS = 36;
 
-  // ✅ 强回弹：但回弹到 target，而不是静止的 vx0/vy0
-  const k = Math.exp(-dt / ORBIT.veilReturnTau);
-  p.vx = targetVx + (p.vx - targetVx) * k;
-  p.vy = targetVy + (p.vy - targetVy) * k;
+// 遮罩多边形：有脸就用 face-oval 轮廓，否则用一个椭圆
+function headMaskOf(pose: HeadPose): Point[] {
+  if (pose.maskPts) return pose.maskPts;
 
-  // ✅ 可选：防止漂出太多（建议先留着）
-  p.vx = Math.max(-1.4, Math.min(1.4, p.vx));
-  p.vy = Math.max(-1.4, Math.min(1.4, p.vy));
-}
+  const { rx, ry } = headRadii(pose);
+  const pts: Point[] = [];
+  for (let i = 0; i < FALLBACK_MASK_STEPS; i++) {
+    const a = (i / FALLBACK_MASK_STEPS) * Math.PI * 2;
+    pts.push({ x: pose.x + rx * Math.cos(a), y: pose.y + ry * Math.sin(a) });
+  }
+  return pts;
 }
 
-drawable.sort((a, b) => a.depth - b.depth);
-
-// ---------- helpers ----------
-function drawToken(d: { p: Particle; x: number; y: number; depth: number }) {
-  const isVeil = d.p.kind === "veil";
-  const t = (d.depth + 1) / 2;
-
-  const scale = isVeil
-    ? (1.00 + 0.10 * t)
-    : (0.65 + 0.75 * t);
+// 分割遮罩只有实时摄像头才有（回放时没有画面），没有就退回多边形
+function currentOccluder(masks: Point[][]): Occluder {
+  if (settings.occlusion === "segmentation" && segmentation && tracking?.kind === "mediapipe") {
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    const image = segmentation.render(viewport, settings.segmentation);
+    if (image) return image;
+  }
+  return { kind: "polygons", polygons: masks };
+}
 
-  const veilFade = Math.pow(1 - d.p.u, 0.9);
-  const alpha = isVeil
-    ? (0.20 + 0.85 * veilFade)
-    : (0.10 + 0.90 * t);
+// --- Gestures ---
+const gestures = createGestureRecognizer();
+const GRAB_RADIUS = 70; // px：pinch 点附近多远内的字可以被抓起来
+const SPEED_STEP = 0.25;
+
+let frozen = false;
+let grabbed: { p: Particle; head: Head; hand: Handedness } | null = null;
+let lastParticles: { d: SimParticle; head: Head }[] = [];
+
+function grabNearest(at: Point, hand: Handedness) {
+  let best: { d: SimParticle; head: Head } | null = null;
+  let bestDist = GRAB_RADIUS;
+  for (const item of lastParticles) {
+    const dist = Math.hypot(item.d.x - at.x, item.d.y - at.y);
+    if (dist < bestDist) {
+      best = item;
+      bestDist = dist;
+    }
+  }
+  if (!best) return;
+  best.d.p.pinned = at;
+  grabbed = { p: best.d.p, head: best.head, hand };
+}
 
-  ctx.save();
-  ctx.globalAlpha = alpha;
-  ctx.font = `${Math.round(settings.fontSize * scale)}px system-ui`;
-  ctx.fillStyle = getParticleColor(d.p);
-  ctx.textAlign = "center";
-  ctx.textBaseline = "middle";
-  ctx.fillText(d.p.token, d.x, d.y);
-  ctx.restore();
+function releaseGrab() {
+  if (!grabbed) return;
+  unpinParticle(grabbed.p, headPose(grabbed.head), settings.ring, settings.layout.mode, settings.fontSize);
+  grabbed = null;
 }
 
-// ---------- Layer A: orbit BEHIND + head occlusion ----------
-ctx.save();
+// held: 手势是持续的（pinch / fist 有 start/end），否则是一次性的（swipe / 手掌停留）
+function runGestureAction(
+  action: GestureAction,
+  phase: "start" | "move" | "end",
+  held: boolean,
+  hand: Handedness,
+  at: Point | null
+) {
+  switch (action) {
+    case "grab":
+      if (!held || !at) break;
+      // 另一只手捏住：先放开之前抓着的字（不然它一直钉在原地）；move / end 只认抓着它的那只手
+      if (phase === "start") {
+        releaseGrab();
+        grabNearest(at, hand);
+      } else if (grabbed?.hand !== hand) break;
+      else if (phase === "move") grabbed.p.pinned = at;
+      else releaseGrab();
+      break;
+    case "freeze":
+      if (phase === "move") break;
+      frozen = held ? phase === "start" : !frozen;
+      break;
+    case "clear":
+      if (phase === "start") clearAll();
+      break;
+    case "speedUp":
+      if (phase === "start") setSpeed(settings.speedMultiplier + SPEED_STEP);
+      break;
+    case "speedDown":
+      if (phase === "start") setSpeed(settings.speedMultiplier - SPEED_STEP);
+      break;
+    case "talk":
+      // 握拳 / 捏住期间说话；张掌 / 挥手这种一下就结束的手势当开关
+      if (phase === "move") break;
+      if (held ? phase === "start" : !speech?.listening()) startListening();
+      else stopListening();
+      break;
+  }
+}
 
-const outside = new Path2D();
-outside.rect(0, 0, window.innerWidth, window.innerHeight);
+function handleGesture(ev: GestureEvent) {
+  const b = settings.gestureBindings;
+  switch (ev.type) {
+    case "pinchStart":
+    case "pinchMove":
+    case "pinchEnd": {
+      const phase = ev.type === "pinchStart" ? "start" : ev.type === "pinchMove" ? "move" : "end";
+      const at = Number.isFinite(ev.x) ? mapNormToScreen(ev.x, ev.y) : grabbed?.p.pinned ?? null;
+      runGestureAction(b.pinch, phase, true, ev.hand, at);
+      break;
+    }
+    case "fistStart":
+    case "fistEnd":
+      runGestureAction(b.fist, ev.type === "fistStart" ? "start" : "end", true, ev.hand, null);
+      break;
+    case "openPalmHold":
+      runGestureAction(b.openPalm, "start", false, ev.hand, null);
+      break;
+    case "swipe": {
+      const action = ev.direction === "left" ? b.swipeLeft : b.swipeRight;
+      runGestureAction(action, "start", false, ev.hand, null);
+      break;
+    }
+  }
+}
 
-if (headMaskPath) {
-  outside.addPath(headMaskPath);
-} else {
-  const fallback = new Path2D();
-  fallback.ellipse(headX, headY, headRx, headRy, 0, 0, Math.PI * 2);
-  outside.addPath(fallback);
+// --- Fingertips: One-Euro per hand + landmark, dropped when the hand disappears ---
+const tipFilters = new Map<string, ReturnType<typeof createOneEuro2D>>();
+const tipsThisFrame = new Map<string, Point>(); // 每帧每个指尖只过一次滤波，指针和笔刷共用
+
+function tipOnScreen(hand: Handedness, lm: { x: number; y: number }[], tip: number, now: number) {
+  const key = `${hand}:${tip}`;
+  const cached = tipsThisFrame.get(key);
+  if (cached) return cached;
+  let f = tipFilters.get(key);
+  if (!f) {
+    f = createOneEuro2D(settings.tracking.finger);
+    tipFilters.set(key, f);
+  }
+  const pt = f.filter(mapNormToScreen(lm[tip].x, lm[tip].y), now);
+  tipsThisFrame.set(key, pt);
+  return pt;
 }
 
-// ✅ 只允许画在“屏幕矩形 - 头部遮罩”区域
-ctx.clip(outside, "evenodd");
+function pruneTipFilters() {
+  for (const key of tipFilters.keys()) if (!tipsThisFrame.has(key)) tipFilters.delete(key);
+  tipsThisFrame.clear();
+}
 
-for (const d of drawable) {
-  if (d.p.kind !== "orbit") continue;
-  if (d.depth >= 0) continue; // 只画后半圈
-  drawToken(d);
+const handOf = (frame: TrackingFrame, i: number): Handedness =>
+  frame.handedness[i] ?? (i === 0 ? "Right" : "Left");
+
+// 每只检测到的手都是笔刷；正在 pinch 抓字的那只手不推开别的字
+function collectBrushes(frame: TrackingFrame, now: number): Brush[] {
+  const brushes: Brush[] = [];
+  frame.hands.forEach((lm, i) => {
+    const hand = handOf(frame, i);
+    if (grabbed?.hand === hand) return;
+
+    const profile = settings.hands[hand];
+    for (const tip of BRUSH_TIPS[settings.brushTips]) {
+      const pt = tipOnScreen(hand, lm, tip, now);
+      brushes.push({
+        ...pt,
+        force: profile.force,
+        strength: profile.strength,
+        radius: ORBIT.influenceRadius,
+      });
+    }
+  });
+  return brushes;
 }
 
-ctx.restore();
+// --- Temporary render loop (shows settings are live) ---
+function draw() {
+  // 用 CSS 像素绘制（因为你前面 setTransform(dpr,...) 了）
+  ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
 
-// ---------- Layer B: veil ALWAYS FRONT (no clip) ----------
-for (const d of drawable) {
-  if (d.p.kind !== "veil") continue;
-  drawToken(d);
-}
+  // 如果 vision 还没准备好，就先显示每个阶段的加载进度
+  if (!tracking || !tracking.ready()) {
+    renderer.clear();
+    drawLoadingScreen();
+    requestAnimationFrame(draw);
+    return;
+  }
 
-// ---------- Layer C: orbit FRONT ----------
-for (const d of drawable) {
-  if (d.p.kind !== "orbit") continue;
-  if (d.depth < 0) continue; // 只画前半圈
-  drawToken(d);
-}
+  const now = performance.now();
 
-// 可选：暂时保留调试点（你确认OK后我们再关掉）
+  const frame = tracking.detect(now);
+  if (settings.occlusion === "segmentation" && segmentation && tracking.kind === "mediapipe") {
+    segmentation.update(video, now, settings.segmentation);
+  }
 
+  const dt = Math.min(0.05, (now - lastT) / 1000);
+  lastT = now;
+
+  remote.tick(now);
+  updateShow(now, frame.faces.length > 0);
+
+  // --- match faces -> heads (center + face size per person) ---
+  updateHeads(frame, now, dt);
+
+  for (const ev of gestures.update(frame, now)) handleGesture(ev);
+
+  // --- get index fingertip (screen) + brushes from every hand (smoothed) ---
+  finger = frame.hands.length ? tipOnScreen(handOf(frame, 0), frame.hands[0], 8, now) : null;
+  const brushes = collectBrushes(frame, now);
+  pruneTipFilters();
+
+  // --- update + draw orbit particles ---
+  const simSettings = {
+    speedMultiplier: frozen ? 0 : settings.speedMultiplier,
+    lifetime: settings.lifetime,
+    ring: settings.ring,
+    veil: settings.veil,
+    layout: settings.layout,
+    fontSize: settings.fontSize,
+    drive: audioDrive(now),
+  };
+  const particles: SimParticle[] = [];
+  const masks: Point[][] = [];
+  lastParticles = [];
+  for (const h of heads) {
+    const pose = headPose(h);
+    for (const d of stepSimulation(h.cloud, pose, brushes, dt, simSettings, now)) {
+      d.alpha *= h.opacity;
+      particles.push(d);
+      lastParticles.push({ d, head: h });
+    }
+    masks.push(headMaskOf(pose));
+  }
+  pruneHistory();
 
+  renderer.render(
+    particles,
+    currentOccluder(masks),
+    { width: window.innerWidth, height: window.innerHeight },
+    { fontSize: settings.fontSize, colorOf: getParticleColor, theme: settings.theme }
+  );
 
+  capture.frame();
 
   requestAnimationFrame(draw);
 }
 
+// 恢复上次的文字：按原来的颜色重新 enqueue（先放在占位 head 上，第一张脸出现时接管）
+function restoreHistory() {
+  const now = performance.now();
+  for (const entry of loadHistory()) {
+    thoughtHistory.push(entry);
+    nextEntryId = Math.max(nextEntryId, entry.id + 1);
+    enqueueTokens(heads[0].cloud, tokenize(entry.text, settings.tokenize), entry, now, settings.layout.groupThoughts);
+  }
+  renderHistoryList();
+}
+
 resizeCanvas();
-startCamera();
+restoreHistory();
+startup();
+if (settings.remote.enabled) remote.connect();
+if (settings.speech.enabled && settings.speech.mode === "continuous") startListening();
 draw();
 
 // UX: autofocus input
 setTimeout(() => thoughtInput.focus(), 300);
 
-function commitThought(raw: string, remember = true) {
+// 返回 false = 被拒绝（键盘输入时保留原文，方便改了再发）
+function commitThought(raw: string, source = "keyboard") {
   const text = raw.trim();
-  if (!text) return;
-
-  if (remember) lastCommittedText = text;
+  if (!text) return false;
+
+  const verdict = moderator.check(text, source, performance.now());
+  switch (verdict.action) {
+    case "reject":
+      console.warn(`Rejected (${source}): ${verdict.reason}`);
+      showModerationStatus(`Rejected: ${verdict.reason}`);
+      return false;
+    case "hold":
+      heldThoughts.push({ id: nextHeldId++, text: verdict.text, reason: verdict.reason });
+      renderHeldThoughts();
+      showModerationStatus(`${heldThoughts.length} held for review`);
+      return true;
+    case "accept":
+      addThought(verdict.text);
+      return true;
+  }
+}
 
+function addThought(text: string) {
   console.log("COMMIT:", text);
 
+  const entry: StoredEntry = {
+    id: nextEntryId++,
+    text,
+    color: randomEntryColor(),
+    customColor: false,
+    at: Date.now(),
+  };
+
   try {
-    enqueueTokens(text);
+    enqueueTokens(pickTargetHead().cloud, tokenize(text, settings.tokenize), entry, performance.now(), settings.layout.groupThoughts);
   } catch (err) {
     console.error("enqueueTokens failed:", err);
   }
+
+  thoughtHistory.push(entry);
+  saveHistory(thoughtHistory);
+  renderHistoryList();
 }
 
 thoughtInput.addEventListener("keydown", (e) => {
@@ -832,12 +2807,36 @@ thoughtInput.addEventListener("keydown", (e) => {
   e.preventDefault();
 
   const current = thoughtInput.value.trim();
+  if (!current) return; // 重发旧的内容请用 history 面板里的 ↻
+
+  if (commitThought(current)) thoughtInput.value = "";
+});
 
-  if (current) {
-    commitThought(current, true);
-    thoughtInput.value = "";
-  } else if (lastCommittedText) {
-    commitThought(lastCommittedText, false); // ✅ 不覆盖 lastCommittedText
+// --- Capture: record video / snapshot PNG ---
+recordBtn.addEventListener("click", async () => {
+  if (!capture.recording()) {
+    try {
+      capture.start(settings.captureBackground);
+      recordBtn.classList.add("recording");
+      recordBtn.dataset.tip = "Stop recording";
+    } catch (err) {
+      console.error("Recording failed:", err);
+    }
+    return;
+  }
+
+  recordBtn.classList.remove("recording");
+  recordBtn.dataset.tip = "Record video";
+  const blob = await capture.stop();
+  downloadBlob(blob, `head-orbit_${timestampForFilename()}.webm`);
+});
+
+snapshotBtn.addEventListener("click", async () => {
+  try {
+    const blob = await capture.snapshot(settings.captureBackground);
+    downloadBlob(blob, `head-orbit_${timestampForFilename()}.png`);
+  } catch (err) {
+    console.error("Snapshot failed:", err);
   }
 });
 
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MODERATION, createModerator, type ModerationRules } from "./moderation";
+
+function masked(text: string, blocklist: string[], extra: Partial<ModerationRules> = {}) {
+  const moderator = createModerator({ ...DEFAULT_MODERATION, ratePerMinute: 0, blocklist, ...extra });
+  const verdict = moderator.check(text, "test", 0);
+  if (verdict.action !== "accept") throw new Error(`unexpected ${verdict.action}`);
+  return verdict.text;
+}
+
+describe("blocklist wildcard", () => {
+  it.each([
+    ["fuck", "✱✱✱✱"],
+    ["fuuuck", "✱✱✱✱✱✱"],
+    ["fack off", "✱✱✱✱ off"],
+    ["fresh duck", "fresh duck"],
+    ["for quick", "for quick"],
+    ["f ck", "f ck"],
+    ["off-cuts", "off-cuts"],
+  ])("f*ck on %j", (text, expected) => {
+    expect(masked(text, ["f*ck"])).toBe(expected);
+  });
+
+  it("keeps prefix / infix wildcards inside one word too", () => {
+    expect(masked("spammer here", ["spam*"])).toBe("✱✱✱✱✱er here");
+    expect(masked("spum here", ["s*m"])).toBe("✱✱✱✱ here");
+    expect(masked("sad mum", ["s*m"])).toBe("sad mum");
+    expect(masked("antispamtool", ["*spam*"])).toBe("anti✱✱✱✱tool");
+  });
+
+  it("still catches a word spelled out with separators", () => {
+    expect(masked("f.u.c.k", ["fuck"])).toBe("✱✱✱✱✱✱✱");
+  });
+});
+
+describe("confusables", () => {
+  it("folds leet and Cyrillic look-alikes", () => {
+    expect(masked("sh!t", ["shit"])).toBe("✱✱✱✱");
+    expect(masked("ѕhіt", ["shit"])).toBe("✱✱✱✱");
+  });
+
+  it("does not read £ as a letter", () => {
+    expect(masked("£ist", ["list"])).toBe("£ist");
+    expect(masked("£ol", ["lol"])).toBe("£ol");
+  });
+});
+
+describe("CJK", () => {
+  it.each([
+    ["plain", "你是傻逼吧", "你是✱✱吧"],
+    ["spaced out", "傻 逼", "✱ ✱"],
+    ["split with symbols", "傻-_-逼", "✱✱✱✱✱"],
+    ["zero-width space", "傻\u200b逼", "✱✱✱"],
+    ["traditional variant", "傻屄", "✱✱"],
+  ])("%s", (_, text, expected) => {
+    expect(masked(text, ["傻逼"])).toBe(expected);
+  });
+
+  it("folds traditional characters onto the simplified term and back", () => {
+    expect(masked("他媽的", ["他妈的"])).toBe("✱✱✱");
+    expect(masked("他妈的", ["他媽的"])).toBe("✱✱✱");
+  });
+
+  it("folds half-width katakana", () => {
+    expect(masked("ﾊﾞｶ", ["バカ"])).toBe("✱✱✱");
+  });
+
+  it("matches inside a sentence with no word boundaries", () => {
+    expect(masked("我觉得他很傻逼啊", ["傻逼"])).toBe("我觉得他很✱✱啊");
+  });
+
+  it("lets equivalents override the built-in variants", () => {
+    expect(masked("妳好", ["你好"], { equivalents: [["妳", "她"]] })).toBe("妳好");
+  });
+});
+
+describe("rate limit", () => {
+  it("counts each source separately", () => {
+    const moderator = createModerator({ ...DEFAULT_MODERATION, ratePerMinute: 1 });
+    expect(moderator.check("hi", "remote:a", 0).action).toBe("accept");
+    expect(moderator.check("hi", "remote:b", 10).action).toBe("accept");
+    expect(moderator.check("hi", "remote:a", 20).action).toBe("reject");
+    expect(moderator.check("hi", "remote:a", 60_000).action).toBe("accept");
+  });
+});
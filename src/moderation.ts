@@ -0,0 +1,309 @@
+// --- Moderation: runs between commitThought and enqueueTokens ---
+//
+// 公共展台用：黑名单（支持 * 通配）+ 归一化匹配（形近字、leet、全角、空格 / 符号拆字），
+// 再加长度和频率限制。命中黑名单后 reject / mask（✱）/ hold（等人工审核）三选一。
+
+export type ModerationAction = "reject" | "mask" | "hold";
+
+export type ModerationRules = {
+  enabled: boolean;
+  action: ModerationAction;
+  // "word" 整词，"word*" 前缀，"*word*" 任意位置，"f*ck" 中间隔几个字母（不跨词）；
+  // 含中日韩文字的词总是按子串匹配（没有词边界）
+  blocklist: string[];
+  // 额外的形近字 / 繁简对照（单个字符 -> 替换），例如 [["妳", "你"]]
+  // 存成数组而不是对象：persistence 的 mergeInto 只认默认值里有的 key
+  equivalents: [string, string][];
+  maxLength: number;     // 0 = 不限
+  ratePerMinute: number; // 每个来源（键盘 / 手机的地址）每分钟最多几条，0 = 不限
+  minGapSec: number;     // 同一来源两条之间至少隔几秒
+};
+
+export const DEFAULT_MODERATION: ModerationRules = {
+  enabled: true,
+  action: "mask",
+  blocklist: [],
+  equivalents: [],
+  maxLength: 200,
+  ratePerMinute: 30,
+  minGapSec: 0,
+};
+
+export type ModerationVerdict =
+  | { action: "accept"; text: string; masked: boolean }
+  | { action: "reject"; reason: string }
+  | { action: "hold"; text: string; reason: string };
+
+export const MASK_CHAR = "✱";
+
+const MODERATION_ACTIONS: ModerationAction[] = ["reject", "mask", "hold"];
+
+// --- Normalisation ---
+
+// NFKC 之后还长得像拉丁字母的字符（西里尔 / 希腊 / leet / 符号）
+// l 和 1 / | / ! 都折成 i：匹配用的是“骨架”，不是给人看的
+const CONFUSABLES: Record<string, string> = {
+  а: "a", в: "b", е: "e", к: "k", м: "m", н: "h", о: "o", р: "p", с: "c", т: "t",
+  у: "y", х: "x", і: "i", ј: "j", ѕ: "s", ԁ: "d", ԛ: "q", ԝ: "w", г: "r", ь: "b",
+  α: "a", β: "b", ε: "e", η: "n", ι: "i", κ: "k", ν: "v", ο: "o", ρ: "p", τ: "t",
+  υ: "u", χ: "x", ω: "w", ς: "s",
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "8": "b", "9": "g",
+  "@": "a", $: "s", "!": "i", "|": "i", "€": "e",
+  l: "i", ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ł: "i", ı: "i",
+};
+
+// 中日韩：全角 / 半角 / 兼容汉字 / 康熙部首 NFKC 已经折好了，这里补常见的繁简和异体字
+// （只收黑名单里常见的字；要更多就在 equivalents 里加，它优先）
+const CJK_VARIANTS: Record<string, string> = {
+  媽: "妈", 們: "们", 個: "个", 這: "这", 說: "说", 話: "话", 國: "国", 會: "会", 來: "来", 時: "时",
+  見: "见", 對: "对", 開: "开", 關: "关", 門: "门", 問: "问", 間: "间", 與: "与", 愛: "爱", 學: "学",
+  幹: "干", 乾: "干", 亂: "乱", 錢: "钱", 買: "买", 賣: "卖", 殺: "杀", 滾: "滚", 賤: "贱", 騷: "骚",
+  髒: "脏", 廢: "废", 豬: "猪", 雞: "鸡", 鳥: "鸟", 癡: "痴", 腦: "脑", 殘: "残", 屍: "尸", 槍: "枪",
+  彈: "弹", 黨: "党", 獨: "独", 妳: "你", 祢: "你", 艹: "草", 肏: "操", 屄: "逼",
+};
+
+// 空白、标点、符号、零宽字符：拆字用的分隔，直接跳过（记一个“间隔”）
+const SEPARATOR = /[\p{White_Space}\p{P}\p{S}\p{Cf}\p{Cc}]/u;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function foldChar(c: string, equivalents: Record<string, string>, beforeWord: boolean) {
+  const base = (equivalents[c] ?? CJK_VARIANTS[c] ?? c).normalize("NFKC").toLowerCase();
+  let out = "";
+  for (const ch of base.normalize("NFD").replace(/\p{M}/gu, "")) {
+    // "sh!t" 里的 ! 是字母，"you ass!" 里的是标点：符号只有后面紧跟字母 / 数字时才折
+    const mapped = CONFUSABLES[ch];
+    out += mapped && (beforeWord || !SEPARATOR.test(ch)) ? mapped : ch;
+  }
+  return out;
+}
+
+type Skeleton = {
+  chars: string[];
+  gapBefore: boolean[]; // length = chars.length + 1
+  from: number[];       // 原文里的起止位置（UTF-16 下标）
+  to: number[];
+};
+
+function skeletonOf(text: string, equivalents: Record<string, string>): Skeleton {
+  const sk: Skeleton = { chars: [], gapBefore: [], from: [], to: [] };
+  let gap = false;
+  const cps = [...text];
+  let i = 0;
+  cps.forEach((c, n) => {
+    const beforeWord = n + 1 < cps.length && WORD_CHAR.test(cps[n + 1]);
+    for (const ch of foldChar(c, equivalents, beforeWord)) {
+      if (SEPARATOR.test(ch)) {
+        gap = true;
+        continue;
+      }
+      sk.chars.push(ch);
+      sk.gapBefore.push(gap);
+      sk.from.push(i);
+      sk.to.push(i + c.length);
+      gap = false;
+    }
+    i += c.length;
+  });
+  sk.gapBefore.push(true);
+  return sk;
+}
+
+// 中日韩字符和拉丁字母紧挨着也算词边界（"我是ass" 里的 ass 是一个词）
+function isBoundary(sk: Skeleton, k: number) {
+  if (k === 0 || k === sk.chars.length || sk.gapBefore[k]) return true;
+  const a = sk.chars[k - 1];
+  const b = sk.chars[k];
+  return !WORD_CHAR.test(a) || !WORD_CHAR.test(b) || CJK.test(a) || CJK.test(b);
+}
+
+// --- Blocklist ---
+
+type CompiledTerm = {
+  re: RegExp; // sticky，在骨架上逐位置试
+  anyStart: boolean;
+  anyEnd: boolean;
+};
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function compileTerm(term: string, equivalents: Record<string, string>): CompiledTerm | null {
+  const cjk = CJK.test(term);
+  const parts = term
+    .split("*")
+    .map((p) => skeletonOf(p, equivalents).chars)
+    .filter((chars) => chars.length);
+  if (!parts.length) return null;
+
+  // 每个字母允许重复（"fuuuck"），中间的 * 最多跨 8 个字符；* 单独成组，匹配后检查它没有跨过间隔
+  const source = parts.map((chars) => chars.map((ch) => `${escapeRe(ch)}+`).join("")).join("(.{0,8}?)");
+  return {
+    re: new RegExp(source, "duy"),
+    anyStart: cjk || term.trimStart().startsWith("*"),
+    anyEnd: cjk || term.trimEnd().endsWith("*"),
+  };
+}
+
+// 骨架里去掉了分隔符，"fresh duck" 会变成 "freshduck"：* 连同它两头都不能落在间隔上
+function wildcardSpansGap(sk: Skeleton, m: RegExpExecArray, indexAt: Map<number, number>) {
+  for (let g = 1; g < m.length; g++) {
+    const [a, b] = m.indices![g];
+    const to = indexAt.get(b)!;
+    for (let j = indexAt.get(a)!; j <= to; j++) if (sk.gapBefore[j]) return true;
+  }
+  return false;
+}
+
+// 返回原文里要打码的区间
+function findMatches(sk: Skeleton, terms: CompiledTerm[]) {
+  const joined = sk.chars.join("");
+  // 骨架字符可能是代理对，regex 下标要换回字符下标
+  const offsets: number[] = [];
+  let at = 0;
+  for (const ch of sk.chars) {
+    offsets.push(at);
+    at += ch.length;
+  }
+  offsets.push(at);
+  const indexAt = new Map(offsets.map((o, k) => [o, k]));
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let k = 0; k < sk.chars.length; k++) {
+      if (!term.anyStart && !isBoundary(sk, k)) continue;
+      term.re.lastIndex = offsets[k];
+      const m = term.re.exec(joined);
+      if (!m || !m[0].length) continue;
+      const end = indexAt.get(offsets[k] + m[0].length)!;
+      if (!term.anyEnd && !isBoundary(sk, end)) continue;
+      if (wildcardSpansGap(sk, m, indexAt)) continue;
+      ranges.push([sk.from[k], sk.to[end - 1]]);
+      k = end - 1;
+    }
+  }
+  return ranges;
+}
+
+function maskRanges(text: string, ranges: [number, number][]) {
+  let out = "";
+  let i = 0;
+  for (const c of text) {
+    const hit = ranges.some(([a, b]) => i >= a && i < b);
+    out += hit && !/\s/.test(c) ? MASK_CHAR : c;
+    i += c.length;
+  }
+  return out;
+}
+
+// --- Moderator ---
+
+export function createModerator(rules: ModerationRules) {
+  const history = new Map<string, number[]>(); // source -> 通过频率检查的时间戳
+  let compiledKey = "";
+  let compiled = { terms: [] as CompiledTerm[], equivalents: {} as Record<string, string> };
+
+  // 规则在面板里随时会改，用内容做 key，变了才重新编译
+  function compile() {
+    const key = JSON.stringify([rules.blocklist, rules.equivalents]);
+    if (key !== compiledKey) {
+      compiledKey = key;
+      const equivalents = Object.fromEntries(rules.equivalents);
+      compiled = {
+        equivalents,
+        terms: rules.blocklist
+          .map((t) => compileTerm(t, equivalents))
+          .filter((t): t is CompiledTerm => t !== null),
+      };
+    }
+    return compiled;
+  }
+
+  function rateLimited(source: string, now: number) {
+    // 每个手机地址一个来源：一分钟没说话的就忘掉
+    for (const [key, times] of history) if (!times.length || now - times[times.length - 1] >= 60_000) history.delete(key);
+    const list = (history.get(source) ?? []).filter((t) => now - t < 60_000);
+    history.set(source, list);
+    const last = list[list.length - 1];
+    if (rules.minGapSec > 0 && last !== undefined && now - last < rules.minGapSec * 1000) return true;
+    if (rules.ratePerMinute > 0 && list.length >= rules.ratePerMinute) return true;
+    list.push(now);
+    return false;
+  }
+
+  return {
+    check(text: string, source: string, now: number): ModerationVerdict {
+      if (!rules.enabled) return { action: "accept", text, masked: false };
+
+      if (rules.maxLength > 0 && [...text].length > rules.maxLength) {
+        return { action: "reject", reason: `longer than ${rules.maxLength} characters` };
+      }
+      if (rateLimited(source, now)) return { action: "reject", reason: "too many messages, slow down" };
+
+      const { terms, equivalents } = compile();
+      const ranges = findMatches(skeletonOf(text, equivalents), terms);
+      if (!ranges.length) return { action: "accept", text, masked: false };
+
+      switch (rules.action) {
+        case "reject":
+          return { action: "reject", reason: "blocked word" };
+        case "hold":
+          return { action: "hold", text, reason: "blocked word" };
+        case "mask":
+          return { action: "accept", text: maskRanges(text, ranges), masked: true };
+      }
+    },
+  };
+}
+
+export type Moderator = ReturnType<typeof createModerator>;
+
+// --- Rules file (JSON) ---
+//
+//   { "action": "mask", "blocklist": ["badword", "*spam*"], "equivalents": { "妳": "你" },
+//     "maxLength": 140, "ratePerMinute": 6, "minGapSec": 3 }
+//
+// 没写的字段用默认值，类型不对直接报错（宁可不加载也不要半套规则）
+export function parseModerationRules(json: unknown): ModerationRules {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Not a moderation rules file");
+  }
+  const r = json as Partial<Record<keyof ModerationRules, unknown>>;
+  const out: ModerationRules = structuredClone(DEFAULT_MODERATION);
+
+  if (r.enabled !== undefined) {
+    if (typeof r.enabled !== "boolean") throw new Error("enabled must be true or false");
+    out.enabled = r.enabled;
+  }
+  if (r.action !== undefined) {
+    if (!MODERATION_ACTIONS.includes(r.action as ModerationAction)) {
+      throw new Error(`action must be one of ${MODERATION_ACTIONS.join(", ")}`);
+    }
+    out.action = r.action as ModerationAction;
+  }
+  if (r.blocklist !== undefined) {
+    if (!Array.isArray(r.blocklist) || r.blocklist.some((t) => typeof t !== "string")) {
+      throw new Error("blocklist must be a list of strings");
+    }
+    out.blocklist = r.blocklist.map((t: string) => t.trim()).filter(Boolean);
+  }
+  if (r.equivalents !== undefined) {
+    const eq = r.equivalents;
+    if (!eq || typeof eq !== "object" || Object.values(eq).some((v) => typeof v !== "string")) {
+      throw new Error("equivalents must map characters to strings");
+    }
+    out.equivalents = Object.entries(eq as Record<string, string>);
+  }
+  for (const key of ["maxLength", "ratePerMinute", "minGapSec"] as const) {
+    const v = r[key];
+    if (v === undefined) continue;
+    if (typeof v !== "number" || !(v >= 0)) throw new Error(`${key} must be a number >= 0`);
+    out[key] = v;
+  }
+  return out;
+}
+
+export async function fetchModerationRules(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return parseModerationRules(await res.json());
+}
@@ -0,0 +1,119 @@
+import type { ImageSegmenter } from "@mediapipe/tasks-vision";
+import type { Point } from "./simulation";
+
+// --- Occluders: what hides the back half of the orbit ---
+//
+//   polygons      每个头一个多边形（face-oval 放大），便宜，默认
+//   image         分割模型给出的逐像素人物 / 头发遮罩（屏幕尺寸，alpha = 遮挡程度）
+
+export type Occluder =
+  | { kind: "polygons"; polygons: Point[][] }
+  | { kind: "image"; image: HTMLCanvasElement };
+
+export type OcclusionMode = "landmarks" | "segmentation";
+
+export type SegmentationSettings = {
+  smoothingSec: number; // 时间平滑（EMA 时间常数），0 = 不平滑
+  featherPx: number;    // 边缘羽化（屏幕 px）
+};
+
+export const DEFAULT_SEGMENTATION: SegmentationSettings = {
+  smoothingSec: 0.12,
+  featherPx: 6,
+};
+
+// 屏幕遮罩用半分辨率就够了（反正要羽化）
+const MASK_SCALE = 0.5;
+
+// 置信度 -> alpha 的软阈值
+const EDGE_LO = 0.35;
+const EDGE_HI = 0.65;
+
+export function createSegmentationOccluder(segmenter: ImageSegmenter) {
+  // 视频尺寸的遮罩（平滑后）
+  const source = document.createElement("canvas");
+  const sctx = source.getContext("2d")!;
+  let smoothed: Float32Array | null = null;
+  let pixels: ImageData | null = null;
+
+  // 屏幕尺寸的遮罩（cover + 镜像 + 羽化），交给渲染器
+  const screen = document.createElement("canvas");
+  const screenCtx = screen.getContext("2d")!;
+
+  let lastT: number | null = null;
+  let hasMask = false;
+
+  // 背景置信度 -> 人物置信度，和上一帧做 EMA
+  function accumulate(background: Float32Array, w: number, h: number, k: number) {
+    if (!smoothed || source.width !== w || source.height !== h) {
+      source.width = w;
+      source.height = h;
+      smoothed = new Float32Array(w * h);
+      pixels = sctx.createImageData(w, h);
+      k = 1;
+    }
+
+    const data = pixels!.data;
+    for (let i = 0; i < smoothed.length; i++) {
+      const person = 1 - background[i];
+      const v = smoothed[i] + (person - smoothed[i]) * k;
+      smoothed[i] = v;
+
+      const t = Math.max(0, Math.min(1, (v - EDGE_LO) / (EDGE_HI - EDGE_LO)));
+      const o = i * 4;
+      data[o] = 255;
+      data[o + 1] = 255;
+      data[o + 2] = 255;
+      data[o + 3] = t * 255;
+    }
+    sctx.putImageData(pixels!, 0, 0);
+    hasMask = true;
+  }
+
+  return {
+    // 每帧在 tracking.detect 之后调用（同一个 video、同一个时间戳）
+    update(video: HTMLVideoElement, now: number, opts: SegmentationSettings) {
+      const dt = lastT === null ? 1 : (now - lastT) / 1000;
+      lastT = now;
+      const k = opts.smoothingSec > 0 ? 1 - Math.exp(-dt / opts.smoothingSec) : 1;
+
+      // mask 只在 callback 里有效，必须在里面读出来
+      segmenter.segmentForVideo(video, now, (result) => {
+        const bg = result.confidenceMasks?.[0];
+        if (bg) accumulate(bg.getAsFloat32Array(), bg.width, bg.height, k);
+      });
+    },
+
+    // 画到屏幕坐标：和 #cam 一样 object-fit: cover + scaleX(-1)
+    render(viewport: { width: number; height: number }, opts: SegmentationSettings): Occluder | null {
+      if (!hasMask) return null;
+
+      const w = Math.max(1, Math.round(viewport.width * MASK_SCALE));
+      const h = Math.max(1, Math.round(viewport.height * MASK_SCALE));
+      if (screen.width !== w || screen.height !== h) {
+        screen.width = w;
+        screen.height = h;
+      }
+
+      const scale = Math.max(w / source.width, h / source.height);
+      const rw = source.width * scale;
+      const rh = source.height * scale;
+
+      screenCtx.save();
+      screenCtx.clearRect(0, 0, w, h);
+      screenCtx.translate(w, 0);
+      screenCtx.scale(-1, 1);
+      screenCtx.filter = opts.featherPx > 0 ? `blur(${opts.featherPx * MASK_SCALE}px)` : "none";
+      screenCtx.drawImage(source, (w - rw) / 2, (h - rh) / 2, rw, rh);
+      screenCtx.restore();
+
+      return { kind: "image", image: screen };
+    },
+
+    close() {
+      segmenter.close();
+    },
+  };
+}
+
+export type SegmentationOccluder = ReturnType<typeof createSegmentationOccluder>;
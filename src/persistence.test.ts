@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { loadSettings, type SettingItems } from "./persistence";
+
+const DEFAULTS = {
+  renderer: "webgl",
+  layout: { mode: "lanes", transitionSec: 1.2 },
+  hands: { Left: { force: "repel" }, Right: { force: "repel" } },
+  presets: [] as { name: string }[],
+  palette: ["#fff"],
+  blocklist: [] as string[],
+};
+
+const CHOICES = {
+  renderer: ["canvas", "webgl"],
+  "layout.mode": ["lanes", "spiral"],
+  "hands.*.force": ["repel", "attract"],
+};
+
+function store(value: unknown) {
+  localStorage.setItem("head-orbit.settings.v1", JSON.stringify(value));
+}
+
+beforeEach(() => {
+  const data = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => void data.set(k, v),
+    removeItem: (k: string) => void data.delete(k),
+  });
+});
+
+describe("loadSettings", () => {
+  it("keeps stored values that are allowed", () => {
+    store({ renderer: "canvas", layout: { mode: "spiral", transitionSec: 2 }, hands: { Left: { force: "attract" } } });
+    const s = loadSettings(DEFAULTS, CHOICES);
+    expect(s.renderer).toBe("canvas");
+    expect(s.layout).toEqual({ mode: "spiral", transitionSec: 2 });
+    expect(s.hands.Left.force).toBe("attract");
+    expect(s.hands.Right.force).toBe("repel");
+  });
+
+  it("falls back to the default for unknown enum values, including under a wildcard", () => {
+    store({ renderer: "vulkan", layout: { mode: "helix" }, hands: { Left: { force: "explode" } } });
+    const s = loadSettings(DEFAULTS, CHOICES);
+    expect(s.renderer).toBe("webgl");
+    expect(s.layout.mode).toBe("lanes");
+    expect(s.hands.Left.force).toBe("repel");
+  });
+
+  it("only accepts arrays where the default is an array", () => {
+    store({ presets: { name: "not a list" }, palette: ["#000", "#111"] });
+    const s = loadSettings(DEFAULTS, CHOICES);
+    expect(s.presets).toEqual([]);
+    expect(s.palette).toEqual(["#000", "#111"]);
+  });
+
+  it("does not merge an array into an object default", () => {
+    store({ layout: ["spiral"] });
+    expect(loadSettings(DEFAULTS, CHOICES).layout).toEqual(DEFAULTS.layout);
+  });
+
+  it("ignores wrong types and unknown keys", () => {
+    store({ renderer: 3, extra: true, layout: { transitionSec: "fast" } });
+    const s = loadSettings(DEFAULTS, CHOICES);
+    expect(s).toEqual(DEFAULTS);
+  });
+
+  it("drops array items that fail their check or differ from the default's items", () => {
+    const items: SettingItems = { blocklist: (v) => typeof v === "string" };
+    store({ blocklist: ["spam", 3, null, "eggs"], palette: ["#000", { c: 1 }, 7], presets: [{ name: "a" }, "b"] });
+    const s = loadSettings(DEFAULTS, CHOICES, items);
+    expect(s.blocklist).toEqual(["spam", "eggs"]);
+    expect(s.palette).toEqual(["#000"]);
+    expect(s.presets).toEqual([{ name: "a" }, "b"]); // 空默认值、没有规则：原样
+  });
+});
@@ -0,0 +1,126 @@
+// --- localStorage persistence: settings + committed thoughts ---
+//
+// 所有读写都包在 try/catch 里：隐私模式 / 配额满时直接当作没有存储
+
+const SETTINGS_KEY = "head-orbit.settings.v1";
+const HISTORY_KEY = "head-orbit.history.v1";
+const PERSIST_KEY = "head-orbit.persist";
+
+// 最多恢复这么多条（再多 orbit 也装不下，只会被 enforceCaps 砍掉）
+const MAX_STORED_ENTRIES = 200;
+
+export type StoredEntry = {
+  id: number;
+  text: string;
+  color: string;
+  customColor: boolean; // 在 history 面板里单独改过颜色（不跟随全局颜色）
+  at: number; // Date.now()
+};
+
+function readJSON(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${key}:`, err);
+  }
+}
+
+// 字符串枚举字段允许的值：key 是点分路径，"*" 匹配任意一段（例如 "hands.*.force"）
+export type SettingChoices = Record<string, readonly string[]>;
+
+// 数组字段逐项检查，不合格的项丢掉（默认值常常是空数组，没法照着它的形状查）
+export type SettingItems = Record<string, (item: unknown) => boolean>;
+
+function ruleAt<V>(rules: Record<string, V>, path: string[]) {
+  for (const [pattern, rule] of Object.entries(rules)) {
+    const parts = pattern.split(".");
+    if (parts.length === path.length && parts.every((part, i) => part === "*" || part === path[i])) return rule;
+  }
+  return undefined;
+}
+
+const kindOf = (v: unknown) => (Array.isArray(v) ? "array" : v === null ? "null" : typeof v);
+
+// 没有 items 规则的数组：和默认值第一项同类型的才留下
+function mergeArray<T>(defaults: T & unknown[], stored: unknown, items: SettingItems, path: string[]): T {
+  if (!Array.isArray(stored)) return defaults;
+  const check = ruleAt(items, path) ?? (defaults.length ? (v: unknown) => kindOf(v) === kindOf(defaults[0]) : null);
+  return (check ? stored.filter(check) : stored) as T;
+}
+
+// 只接受和默认值同类型的字段，嵌套对象递归合并（旧版本存的字段不会把新字段弄坏）；
+// 数组必须还是数组（逐项过 items），枚举字段必须是 choices 里的值，否则用默认值
+function mergeInto<T>(defaults: T, stored: unknown, choices: SettingChoices, items: SettingItems, path: string[] = []): T {
+  if (Array.isArray(defaults)) return mergeArray(defaults, stored, items, path);
+  if (typeof defaults !== "object" || defaults === null) {
+    if (typeof stored !== typeof defaults) return defaults;
+    const allowed = typeof stored === "string" ? ruleAt(choices, path) : undefined;
+    return allowed && !allowed.includes(stored as string) ? defaults : (stored as T);
+  }
+  if (typeof stored !== "object" || stored === null || Array.isArray(stored)) return defaults;
+
+  const out = { ...defaults } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(defaults as Record<string, unknown>)) {
+    out[key] = mergeInto(value, (stored as Record<string, unknown>)[key], choices, items, [...path, key]);
+  }
+  return out as T;
+}
+
+export function isPersistenceEnabled() {
+  try {
+    return localStorage.getItem(PERSIST_KEY) !== "off";
+  } catch {
+    return false;
+  }
+}
+
+// 关掉时顺便清掉已经存下的内容（公共展台用）
+export function setPersistenceEnabled(on: boolean) {
+  try {
+    localStorage.setItem(PERSIST_KEY, on ? "on" : "off");
+    if (!on) {
+      localStorage.removeItem(SETTINGS_KEY);
+      localStorage.removeItem(HISTORY_KEY);
+    }
+  } catch (err) {
+    console.warn("Could not change persistence:", err);
+  }
+}
+
+export function loadSettings<T>(defaults: T, choices: SettingChoices = {}, items: SettingItems = {}): T {
+  if (!isPersistenceEnabled()) return defaults;
+  return mergeInto(defaults, readJSON(SETTINGS_KEY), choices, items);
+}
+
+export function saveSettings(settings: unknown) {
+  if (isPersistenceEnabled()) writeJSON(SETTINGS_KEY, settings);
+}
+
+export function loadHistory(): StoredEntry[] {
+  if (!isPersistenceEnabled()) return [];
+  const stored = readJSON(HISTORY_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter((e) => e && typeof e.text === "string" && typeof e.color === "string")
+    .map((e, i) => ({
+      // 旧版本存的记录没有 id / customColor
+      id: typeof e.id === "number" ? e.id : i + 1,
+      text: e.text,
+      color: e.color,
+      customColor: e.customColor === true,
+      at: typeof e.at === "number" ? e.at : Date.now(),
+    }));
+}
+
+export function saveHistory(entries: StoredEntry[]) {
+  if (isPersistenceEnabled()) writeJSON(HISTORY_KEY, entries.slice(-MAX_STORED_ENTRIES));
+}
@@ -0,0 +1,49 @@
+// --- Head orientation: MediaPipe facial transformation matrix -> screen-space yaw/pitch/roll ---
+//
+// 屏幕坐标系：x 向右，y 向下，z 朝向观众（和画面一样是镜像的）。
+// 旋转顺序 R = Ry(yaw) · Rx(pitch) · Rz(roll)。
+
+export type HeadAngles = { yaw: number; pitch: number; roll: number }; // radians
+
+export type Vec3 = { x: number; y: number; z: number };
+
+// 行优先的 3x3
+export type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+export const NO_ROTATION: HeadAngles = { yaw: 0, pitch: 0, roll: 0 };
+
+export function rotationFromAngles({ yaw, pitch, roll }: HeadAngles): Mat3 {
+  const cy = Math.cos(yaw), sy = Math.sin(yaw);
+  const cx = Math.cos(pitch), sx = Math.sin(pitch);
+  const cz = Math.cos(roll), sz = Math.sin(roll);
+  return [
+    cy * cz + sy * sx * sz, -cy * sz + sy * sx * cz, sy * cx,
+    cx * sz,                cx * cz,                 -sx,
+    -sy * cz + cy * sx * sz, sy * sz + cy * sx * cz, cy * cx,
+  ];
+}
+
+export function rotate(m: Mat3, v: Vec3): Vec3 {
+  return {
+    x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+    y: m[3] * v.x + m[4] * v.y + m[5] * v.z,
+    z: m[6] * v.x + m[7] * v.y + m[8] * v.z,
+  };
+}
+
+// data: 4x4，列优先（MediaPipe 的 Matrix.data），坐标系 x 右 / y 上 / z 朝相机，
+// 而且是没镜像的摄像头画面。换到屏幕坐标系：S = diag(-1, -1, 1)，R' = S·R·S
+export function anglesFromFaceMatrix(data: number[]): HeadAngles {
+  const at = (r: number, c: number) => data[c * 4 + r];
+
+  // 去掉缩放（每一列归一化）
+  const col = [0, 1, 2].map((c) => Math.hypot(at(0, c), at(1, c), at(2, c)) || 1);
+  const S = [-1, -1, 1];
+  const m = (r: number, c: number) => (S[r] * at(r, c) * S[c]) / col[c];
+
+  return {
+    yaw: Math.atan2(m(0, 2), m(2, 2)),
+    pitch: Math.asin(Math.max(-1, Math.min(1, -m(1, 2)))),
+    roll: Math.atan2(m(1, 0), m(1, 1)),
+  };
+}
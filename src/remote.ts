@@ -0,0 +1,125 @@
+// --- Remote submissions: display side of the relay (server/relay.mjs) ---
+//
+// 用 SSE 收手机发来的文字，先进本地队列，再按固定节奏一条条放出来，
+// 一波人同时发的时候不会一下子全部塞进 enqueueTokens。
+
+export type RemoteMessage = { id: number; text: string; at: number; from?: string }; // from: 发送地址的哈希，pending 列表里没有
+
+export type RemoteSettings = {
+  enabled: boolean;
+  baseUrl: string;       // 空 = 同源（npm run relay / vite 代理）
+  operatorToken: string; // 服务器设置了 RELAY_OPERATOR_TOKEN 时才需要
+  paceSec: number;       // 两条之间至少隔多久
+  approval: boolean;     // 先审核再显示
+};
+
+export const DEFAULT_REMOTE: RemoteSettings = {
+  enabled: false,
+  baseUrl: "",
+  operatorToken: "",
+  paceSec: 2,
+  approval: false,
+};
+
+export type RemoteStatus = "off" | "connecting" | "live" | "error";
+
+const MAX_QUEUE = 50; // 再多就丢最旧的
+
+type RemoteHandlers = {
+  onMessage: (m: RemoteMessage) => void;
+  onPending: (list: RemoteMessage[]) => void;
+  onStatus: (status: RemoteStatus, queued: number) => void;
+};
+
+export function createRemoteInbox(settings: RemoteSettings, handlers: RemoteHandlers) {
+  let source: EventSource | null = null;
+  let status: RemoteStatus = "off";
+  let lastReleased = -Infinity;
+  let lastEventId: string | null = null; // 重连时带上，服务器只补发这之后的（不带 = 不补发）
+  const queue: RemoteMessage[] = [];
+
+  const url = (path: string, params: Record<string, string> = {}) => {
+    const base = settings.baseUrl.replace(/\/+$/, "");
+    const query = new URLSearchParams(params);
+    if (settings.operatorToken) query.set("token", settings.operatorToken);
+    const qs = query.toString();
+    return `${base}${path}${qs ? `?${qs}` : ""}`;
+  };
+
+  function setStatus(next: RemoteStatus) {
+    status = next;
+    handlers.onStatus(status, queue.length);
+  }
+
+  async function post(path: string, body: unknown) {
+    const res = await fetch(url(path), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`${path}: HTTP ${res.status}`);
+  }
+
+  function connect() {
+    disconnect();
+    setStatus("connecting");
+
+    const es = new EventSource(url("/api/stream", lastEventId === null ? {} : { lastEventId }));
+    source = es;
+
+    es.addEventListener("open", () => {
+      setStatus("live");
+      // 审核开关以显示端为准
+      post("/api/config", { approval: settings.approval }).catch((err) =>
+        console.warn("Remote config failed:", err)
+      );
+    });
+    es.addEventListener("error", () => setStatus(es.readyState === EventSource.CLOSED ? "error" : "connecting"));
+
+    // config 带着服务器上最新的 id，还没收到过消息也能记下从哪接着
+    es.addEventListener("config", (e) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
+    });
+    es.addEventListener("message", (e) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
+      queue.push(JSON.parse(e.data) as RemoteMessage);
+      if (queue.length > MAX_QUEUE) queue.splice(0, queue.length - MAX_QUEUE);
+      handlers.onStatus(status, queue.length);
+    });
+    es.addEventListener("pending", (e) => handlers.onPending(JSON.parse(e.data) as RemoteMessage[]));
+  }
+
+  function disconnect() {
+    source?.close();
+    source = null;
+    // 收到了但还没放出来的：退回到它们之前，下次连上由服务器补发
+    if (queue.length) lastEventId = String(queue[0].id - 1);
+    queue.length = 0;
+    setStatus("off");
+    handlers.onPending([]);
+  }
+
+  return {
+    connect,
+    disconnect,
+
+    // 每帧调用：到点了就放出下一条
+    tick(now: number) {
+      if (!queue.length || now - lastReleased < settings.paceSec * 1000) return;
+      lastReleased = now;
+      handlers.onMessage(queue.shift()!);
+      handlers.onStatus(status, queue.length);
+    },
+
+    setApproval(on: boolean) {
+      settings.approval = on;
+      if (source) post("/api/config", { approval: on }).catch((err) => console.warn("Remote config failed:", err));
+    },
+
+    moderate(id: number, approve: boolean) {
+      return post("/api/moderate", { id, approve });
+    },
+  };
+}
+
+export type RemoteInbox = ReturnType<typeof createRemoteInbox>;
@@ -0,0 +1,152 @@
+import type { Occluder } from "./occlusion";
+import type { Particle, Point, SimParticle } from "./simulation";
+import { themeFont, type Theme } from "./theme";
+
+// --- Canvas 2D renderer: consumes the simulation output, owns no state ---
+
+export type RenderStyle = {
+  fontSize: number;
+  colorOf: (p: Particle) => string;
+  theme: Theme;
+};
+
+export type Viewport = { width: number; height: number };
+
+// 所有渲染器（Canvas 2D / WebGL）共用的接口
+export type Renderer = {
+  kind: "canvas" | "webgl";
+  // occluder: 头部遮罩（后半圈的 orbit 不能画在里面）
+  render(particles: SimParticle[], occluder: Occluder, viewport: Viewport, style: RenderStyle): void;
+  clear(): void;
+};
+
+function pathFromPts(pts: Point[]) {
+  const path = new Path2D();
+  pts.forEach((p, i) => (i === 0 ? path.moveTo(p.x, p.y) : path.lineTo(p.x, p.y)));
+  path.closePath();
+  return path;
+}
+
+function drawToken(ctx: CanvasRenderingContext2D, d: SimParticle, style: RenderStyle) {
+  const look = style.theme.layers[d.layer];
+  const px = Math.round(style.fontSize * d.scale * look.scale);
+  const fill = style.colorOf(d.p);
+
+  ctx.save();
+  ctx.globalAlpha = d.alpha * look.opacity;
+  ctx.font = themeFont(style.theme, px);
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  if (look.glow > 0) {
+    ctx.shadowColor = look.glowColor || fill;
+    ctx.shadowBlur = look.glow * px;
+  }
+  // 描边先画（宽度的一半被字盖住），发光只跟着第一笔
+  if (look.stroke > 0) {
+    ctx.lineJoin = "round";
+    ctx.lineWidth = look.stroke * px * 2;
+    ctx.strokeStyle = look.strokeColor;
+    ctx.strokeText(d.p.token, d.x, d.y);
+    ctx.shadowColor = "transparent";
+  }
+  ctx.fillStyle = fill;
+  ctx.fillText(d.p.token, d.x, d.y);
+  ctx.restore();
+}
+
+function drawBackClipped(
+  ctx: CanvasRenderingContext2D,
+  sorted: SimParticle[],
+  masks: Point[][],
+  viewport: Viewport,
+  style: RenderStyle
+) {
+  ctx.save();
+
+  // ✅ 只允许画在“屏幕矩形 - 所有头部遮罩”区域
+  // （每个头单独 clip 一次，clip 会相交，避免多个遮罩重叠时 evenodd 反转）
+  for (const mask of masks) {
+    const outside = new Path2D();
+    outside.rect(0, 0, viewport.width, viewport.height);
+    outside.addPath(pathFromPts(mask));
+    ctx.clip(outside, "evenodd");
+  }
+
+  for (const d of sorted) {
+    if (d.layer === "orbitBack") drawToken(ctx, d, style);
+  }
+
+  ctx.restore();
+}
+
+// 逐像素遮罩没法 clip：先画到 scratch 层，用 destination-out 挖掉遮罩（保留羽化边缘），再叠回来
+function drawBackMasked(
+  ctx: CanvasRenderingContext2D,
+  scratch: CanvasRenderingContext2D,
+  sorted: SimParticle[],
+  mask: HTMLCanvasElement,
+  viewport: Viewport,
+  style: RenderStyle
+) {
+  const layer = scratch.canvas;
+  if (layer.width !== ctx.canvas.width || layer.height !== ctx.canvas.height) {
+    layer.width = ctx.canvas.width;
+    layer.height = ctx.canvas.height;
+  }
+  scratch.setTransform(ctx.getTransform());
+  scratch.clearRect(0, 0, viewport.width, viewport.height);
+
+  for (const d of sorted) {
+    if (d.layer === "orbitBack") drawToken(scratch, d, style);
+  }
+
+  scratch.globalCompositeOperation = "destination-out";
+  scratch.drawImage(mask, 0, 0, viewport.width, viewport.height);
+  scratch.globalCompositeOperation = "source-over";
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+}
+
+// scratch: 只有 occluder 是 image 时才用到
+export function renderParticles(
+  ctx: CanvasRenderingContext2D,
+  particles: SimParticle[],
+  occluder: Occluder,
+  viewport: Viewport,
+  style: RenderStyle,
+  scratch?: CanvasRenderingContext2D
+) {
+  const sorted = particles.slice().sort((a, b) => a.depth - b.depth);
+
+  // ---------- Layer A: orbit BEHIND + head occlusion ----------
+  if (occluder.kind === "image" && scratch) {
+    drawBackMasked(ctx, scratch, sorted, occluder.image, viewport, style);
+  } else {
+    const masks = occluder.kind === "polygons" ? occluder.polygons : [];
+    drawBackClipped(ctx, sorted, masks, viewport, style);
+  }
+
+  // ---------- Layer B: veil ALWAYS FRONT (no clip) ----------
+  for (const d of sorted) {
+    if (d.layer === "veil") drawToken(ctx, d, style);
+  }
+
+  // ---------- Layer C: orbit FRONT ----------
+  for (const d of sorted) {
+    if (d.layer === "orbitFront") drawToken(ctx, d, style);
+  }
+}
+
+// main 每帧都会 clearRect 这个 canvas（加载界面也画在上面），所以 clear 什么都不用做
+export function createCanvasRenderer(ctx: CanvasRenderingContext2D): Renderer {
+  const scratch = document.createElement("canvas").getContext("2d")!;
+  return {
+    kind: "canvas",
+    render: (particles, occluder, viewport, style) =>
+      renderParticles(ctx, particles, occluder, viewport, style, scratch),
+    clear() {},
+  };
+}
@@ -0,0 +1,473 @@
+import type { Occluder } from "./occlusion";
+import type { Point, SimLayer, SimParticle } from "./simulation";
+import type { Renderer, RenderStyle, Viewport } from "./render";
+import { themeFont, type LayerStyle, type Theme } from "./theme";
+
+// --- WebGL2 renderer: glyph atlas + instanced quads, head occlusion via stencil ---
+//
+// 每个 token（× 每种字体 / 描边 / 发光组合）只在第一次出现时光栅化进 atlas：
+// R = 字，G = 描边，B = 发光，颜色在 shader 里按主题上。之后每帧只上传一个
+// instance buffer（位置 / 大小 / uv / 颜色），一次 draw call 画一层。
+// 多边形遮罩画进 stencil，orbitBack 只画在 stencil == 0 的地方；
+// 分割遮罩是一张纹理，orbitBack 在 shader 里按它的 alpha 淡掉（保留羽化边缘）。
+
+const ATLAS_SIZE = 2048;
+const GLYPH_PX = 64;                       // atlas 里的基准字号（绘制时再缩放）
+const LINE_H = Math.ceil(GLYPH_PX * 1.35); // 不带描边 / 发光时的格子高度
+const CELL_PAD = 4;
+const SHADOW_SHIFT = ATLAS_SIZE * 2;       // 发光：字画在 atlas 外面，只把 shadow 偏移回来
+const MAX_MASKS = 8; // 每个遮罩占 stencil 的一个 bit
+
+const LAYER_ORDER: SimLayer[] = ["orbitBack", "veil", "orbitFront"];
+
+// cx, cy, w, h, u0, v0, u1, v1, r, g, b, a
+const FLOATS_PER_INSTANCE = 12;
+
+type Glyph = { u0: number; v0: number; u1: number; v1: number; w: number; h: number };
+
+const QUAD_VS = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_rect;
+layout(location = 2) in vec4 a_uv;
+layout(location = 3) in vec4 a_color;
+uniform vec2 u_viewport;
+out vec2 v_uv;
+out vec4 v_color;
+void main() {
+  vec2 pos = a_rect.xy + (a_corner - 0.5) * a_rect.zw;
+  vec2 clip = pos / u_viewport * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_uv = mix(a_uv.xy, a_uv.zw, a_corner);
+  v_color = a_color;
+}`;
+
+const QUAD_FS = `#version 300 es
+precision mediump float;
+uniform sampler2D u_atlas;
+uniform sampler2D u_occluder;
+uniform float u_occlude;   // 1 = 这一批要被遮罩纹理挡住
+uniform vec2 u_resolution; // drawing buffer 尺寸（设备 px）
+uniform vec3 u_strokeColor;
+uniform vec4 u_glowColor;  // a = 0：发光和字同色
+in vec2 v_uv;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  vec3 cov = texture(u_atlas, v_uv).rgb; // 字 / 描边 / 发光的覆盖率（premultiplied）
+  vec3 glow = mix(v_color.rgb, u_glowColor.rgb, u_glowColor.a);
+  // 从下往上叠：发光 -> 描边 -> 字
+  vec4 c = vec4(glow, 1.0) * cov.b;
+  c = vec4(u_strokeColor, 1.0) * cov.g + c * (1.0 - cov.g);
+  c = vec4(v_color.rgb, 1.0) * cov.r + c * (1.0 - cov.r);
+  float a = v_color.a;
+  if (u_occlude > 0.5) {
+    vec2 screenUv = vec2(gl_FragCoord.x / u_resolution.x, 1.0 - gl_FragCoord.y / u_resolution.y);
+    a *= 1.0 - texture(u_occluder, screenUv).a;
+  }
+  outColor = c * a;
+}`;
+
+const MASK_VS = `#version 300 es
+layout(location = 0) in vec2 a_pos;
+uniform vec2 u_viewport;
+void main() {
+  vec2 clip = a_pos / u_viewport * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const MASK_FS = `#version 300 es
+precision mediump float;
+out vec4 outColor;
+void main() { outColor = vec4(0.0); }`;
+
+function compile(gl: WebGL2RenderingContext, vs: string, fs: string) {
+  const program = gl.createProgram()!;
+  for (const [type, src] of [[gl.VERTEX_SHADER, vs], [gl.FRAGMENT_SHADER, fs]] as const) {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, src);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+// --- Glyph atlas: simple shelf packer, cleared and refilled when full ---
+function createGlyphAtlas() {
+  const canvas = document.createElement("canvas");
+  canvas.width = ATLAS_SIZE;
+  canvas.height = ATLAS_SIZE;
+  const actx = canvas.getContext("2d", { willReadFrequently: false })!;
+
+  const glyphs = new Map<string, Glyph>();
+  let cursorX = 0;
+  let cursorY = 0;
+  let rowH = 0;
+  let dirty = true;
+  let generation = 0; // 每次清空 +1，用来发现这一帧里已经拿到的 uv 失效了
+
+  function reset() {
+    actx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+    glyphs.clear();
+    cursorX = 0;
+    cursorY = 0;
+    rowH = 0;
+    dirty = true;
+    generation++;
+  }
+
+  // 主题字体异步加载完：之前用 fallback 字体光栅化的字全部作废
+  document.fonts?.addEventListener("loadingdone", reset);
+
+  function add(key: string, token: string, theme: Theme, look: LayerStyle): Glyph {
+    const stroke = look.stroke * GLYPH_PX;
+    const glow = look.glow * GLYPH_PX;
+    const pad = CELL_PAD + Math.ceil(stroke + glow * 1.5);
+
+    actx.font = themeFont(theme, GLYPH_PX);
+    const w = Math.min(ATLAS_SIZE - CELL_PAD * 2, Math.ceil(actx.measureText(token).width) + pad * 2);
+    const h = LINE_H + pad * 2;
+
+    if (cursorX + w > ATLAS_SIZE) {
+      cursorX = 0;
+      cursorY += rowH;
+      rowH = 0;
+    }
+    if (cursorY + h > ATLAS_SIZE) reset();
+
+    const cx = cursorX + w / 2;
+    const cy = cursorY + h / 2;
+    actx.save();
+    actx.textAlign = "center";
+    actx.textBaseline = "middle";
+    actx.globalCompositeOperation = "lighter"; // 三个通道各画各的，互不覆盖
+    if (glow > 0) {
+      actx.shadowColor = "#0000ff";
+      actx.shadowBlur = glow;
+      actx.shadowOffsetX = SHADOW_SHIFT;
+      actx.fillStyle = "#0000ff";
+      actx.fillText(token, cx - SHADOW_SHIFT, cy);
+      actx.shadowColor = "transparent";
+    }
+    if (stroke > 0) {
+      actx.lineJoin = "round";
+      actx.lineWidth = stroke * 2; // 里面一半被字盖住
+      actx.strokeStyle = "#00ff00";
+      actx.strokeText(token, cx, cy);
+    }
+    actx.fillStyle = "#ff0000";
+    actx.fillText(token, cx, cy);
+    actx.restore();
+
+    const g: Glyph = {
+      u0: cursorX / ATLAS_SIZE,
+      v0: cursorY / ATLAS_SIZE,
+      u1: (cursorX + w) / ATLAS_SIZE,
+      v1: (cursorY + h) / ATLAS_SIZE,
+      w,
+      h,
+    };
+    glyphs.set(key, g);
+    cursorX += w;
+    rowH = Math.max(rowH, h);
+    dirty = true;
+    return g;
+  }
+
+  return {
+    canvas,
+    generation: () => generation,
+    get(token: string, theme: Theme, look: LayerStyle) {
+      const key = `${theme.fontWeight}|${theme.fontFamily}|${look.stroke}|${look.glow}\n${token}`;
+      return glyphs.get(key) ?? add(key, token, theme, look);
+    },
+    takeDirty() {
+      const d = dirty;
+      dirty = false;
+      return d;
+    },
+  };
+}
+
+// CSS 颜色 -> 0..1 rgb（同一种颜色只解析一次）
+function createColorCache() {
+  const probe = document.createElement("canvas").getContext("2d")!;
+  const cache = new Map<string, [number, number, number, number]>();
+
+  return (css: string) => {
+    let c = cache.get(css);
+    if (c) return c;
+
+    probe.fillStyle = "#000000";
+    probe.fillStyle = css;
+    const norm = probe.fillStyle; // "#rrggbb" 或 "rgba(r, g, b, a)"
+    if (norm.startsWith("#")) {
+      const n = parseInt(norm.slice(1), 16);
+      c = [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255, 1];
+    } else {
+      const [r, g, b, a] = norm.replace(/[^\d.,]/g, "").split(",").map(Number);
+      c = [r / 255, g / 255, b / 255, a ?? 1];
+    }
+    cache.set(css, c);
+    return c;
+  };
+}
+
+// 不支持 WebGL2 时返回 null，由调用方退回 Canvas 2D
+export function createWebGLRenderer(canvas: HTMLCanvasElement): Renderer | null {
+  const gl = canvas.getContext("webgl2", {
+    alpha: true,
+    premultipliedAlpha: true,
+    antialias: false,
+    stencil: true,
+    preserveDrawingBuffer: true, // 录像 / 截图要从这个 canvas drawImage
+  });
+  if (!gl) return null;
+
+  try {
+    return buildRenderer(canvas, gl);
+  } catch (err) {
+    console.warn("WebGL renderer unavailable:", err);
+    return null;
+  }
+}
+
+function buildRenderer(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext): Renderer {
+  const quadProgram = compile(gl, QUAD_VS, QUAD_FS);
+  const maskProgram = compile(gl, MASK_VS, MASK_FS);
+
+  const quadViewport = gl.getUniformLocation(quadProgram, "u_viewport");
+  const quadAtlas = gl.getUniformLocation(quadProgram, "u_atlas");
+  const quadOccluder = gl.getUniformLocation(quadProgram, "u_occluder");
+  const quadOcclude = gl.getUniformLocation(quadProgram, "u_occlude");
+  const quadResolution = gl.getUniformLocation(quadProgram, "u_resolution");
+  const quadStrokeColor = gl.getUniformLocation(quadProgram, "u_strokeColor");
+  const quadGlowColor = gl.getUniformLocation(quadProgram, "u_glowColor");
+  const maskViewport = gl.getUniformLocation(maskProgram, "u_viewport");
+
+  const atlas = createGlyphAtlas();
+  const colorOf = createColorCache();
+
+  // --- atlas texture ---
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+  // --- occluder texture (segmentation mask, re-uploaded every frame) ---
+  const occluderTexture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, occluderTexture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  // --- instanced quad VAO ---
+  const quadVao = gl.createVertexArray();
+  gl.bindVertexArray(quadVao);
+
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  const instanceBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  for (const loc of [1, 2, 3]) {
+    gl.enableVertexAttribArray(loc);
+    gl.vertexAttribDivisor(loc, 1);
+  }
+
+  const STRIDE = FLOATS_PER_INSTANCE * 4;
+  // 每一层从 instance buffer 的第 first 个开始画（WebGL2 没有 baseInstance）
+  function pointInstancesAt(first: number) {
+    const base = first * STRIDE;
+    gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+    gl.vertexAttribPointer(1, 4, gl.FLOAT, false, STRIDE, base);
+    gl.vertexAttribPointer(2, 4, gl.FLOAT, false, STRIDE, base + 16);
+    gl.vertexAttribPointer(3, 4, gl.FLOAT, false, STRIDE, base + 32);
+  }
+
+  // --- mask VAO ---
+  const maskVao = gl.createVertexArray();
+  gl.bindVertexArray(maskVao);
+  const maskBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, maskBuffer);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  // 跨帧复用，避免每帧分配
+  let instances = new Float32Array(1024 * FLOATS_PER_INSTANCE);
+  let maskData = new Float32Array(256);
+  const buckets: Record<SimLayer, SimParticle[]> = { orbitBack: [], veil: [], orbitFront: [] };
+  const byDepth = (a: SimParticle, b: SimParticle) => a.depth - b.depth;
+
+  // 每层的描边 / 发光颜色不同，所以三层分三次 draw
+  function setLayerColors(look: LayerStyle) {
+    const [sr, sg, sb] = colorOf(look.strokeColor);
+    gl.uniform3f(quadStrokeColor, sr, sg, sb);
+    if (look.glowColor) {
+      const [r, g, b] = colorOf(look.glowColor);
+      gl.uniform4f(quadGlowColor, r, g, b, 1);
+    } else {
+      gl.uniform4f(quadGlowColor, 0, 0, 0, 0);
+    }
+  }
+
+  // 按 back / veil / front 顺序写进 instances；atlas 中途被清空时返回 false
+  function fillInstances(style: RenderStyle) {
+    const gen = atlas.generation();
+    let o = 0;
+    for (const layer of LAYER_ORDER) {
+      const look = style.theme.layers[layer];
+      for (const d of buckets[layer]) {
+        const g = atlas.get(d.p.token, style.theme, look);
+        if (atlas.generation() !== gen) return false;
+
+        const k = (style.fontSize * d.scale * look.scale) / GLYPH_PX;
+        const [r, gr, b, a] = colorOf(style.colorOf(d.p));
+        instances[o++] = d.x;
+        instances[o++] = d.y;
+        instances[o++] = g.w * k;
+        instances[o++] = g.h * k;
+        instances[o++] = g.u0;
+        instances[o++] = g.v0;
+        instances[o++] = g.u1;
+        instances[o++] = g.v1;
+        instances[o++] = r;
+        instances[o++] = gr;
+        instances[o++] = b;
+        instances[o++] = a * d.alpha * look.opacity;
+      }
+    }
+    return true;
+  }
+
+  function uploadAtlas() {
+    if (!atlas.takeDirty()) return;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, atlas.canvas);
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+
+  // 每个遮罩用 INVERT 画一个三角扇：任意简单多边形都能得到正确的 evenodd 填充，
+  // 不同遮罩用不同的 bit，重叠时不会互相抵消
+  function drawMasks(masks: Point[][], viewport: Viewport) {
+    gl.useProgram(maskProgram);
+    gl.uniform2f(maskViewport, viewport.width, viewport.height);
+    gl.bindVertexArray(maskVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, maskBuffer);
+
+    gl.enable(gl.STENCIL_TEST);
+    gl.colorMask(false, false, false, false);
+    gl.stencilFunc(gl.ALWAYS, 0, 0xff);
+    gl.stencilOp(gl.KEEP, gl.KEEP, gl.INVERT);
+
+    masks.slice(0, MAX_MASKS).forEach((pts, i) => {
+      if (pts.length < 3) return;
+      if (maskData.length < pts.length * 2) maskData = new Float32Array(pts.length * 4);
+      pts.forEach((p, j) => {
+        maskData[j * 2] = p.x;
+        maskData[j * 2 + 1] = p.y;
+      });
+      gl.bufferData(gl.ARRAY_BUFFER, maskData.subarray(0, pts.length * 2), gl.STREAM_DRAW);
+      gl.stencilMask(1 << i);
+      gl.drawArrays(gl.TRIANGLE_FAN, 0, pts.length);
+    });
+
+    gl.stencilMask(0xff);
+    gl.colorMask(true, true, true, true);
+  }
+
+  function clear() {
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clearStencil(0);
+    gl.stencilMask(0xff);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.STENCIL_BUFFER_BIT);
+  }
+
+  return {
+    kind: "webgl",
+    clear,
+
+    render(particles, occluder: Occluder, viewport, style) {
+      clear();
+      if (gl.isContextLost()) return;
+
+      buckets.orbitBack.length = 0;
+      buckets.veil.length = 0;
+      buckets.orbitFront.length = 0;
+      for (const d of particles) buckets[d.layer].push(d);
+      buckets.orbitBack.sort(byDepth);
+      buckets.veil.sort(byDepth);
+      buckets.orbitFront.sort(byDepth);
+
+      const count = particles.length;
+      if (instances.length < count * FLOATS_PER_INSTANCE) {
+        instances = new Float32Array(count * FLOATS_PER_INSTANCE * 2);
+      }
+      // atlas 满了会在中途清空：再来一遍，这次所有字都在新的 atlas 里
+      if (!fillInstances(style)) fillInstances(style);
+      uploadAtlas();
+
+      // ---------- Layer A: orbit BEHIND, only outside every head ----------
+      const useImage = occluder.kind === "image";
+      if (useImage) {
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, occluderTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, occluder.image);
+      } else {
+        drawMasks(occluder.polygons, viewport);
+      }
+
+      gl.useProgram(quadProgram);
+      gl.uniform2f(quadViewport, viewport.width, viewport.height);
+      gl.uniform2f(quadResolution, canvas.width, canvas.height);
+      gl.uniform1i(quadAtlas, 0);
+      gl.uniform1i(quadOccluder, 1);
+      gl.uniform1f(quadOcclude, useImage ? 1 : 0);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+      gl.bindVertexArray(quadVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, instances.subarray(0, count * FLOATS_PER_INSTANCE), gl.STREAM_DRAW);
+
+      const back = buckets.orbitBack.length;
+      gl.stencilFunc(gl.EQUAL, 0, 0xff);
+      gl.stencilOp(gl.KEEP, gl.KEEP, gl.KEEP);
+      setLayerColors(style.theme.layers.orbitBack);
+      pointInstancesAt(0);
+      if (back) gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, back);
+
+      // ---------- Layer B + C: veil, then orbit FRONT (no occlusion) ----------
+      gl.disable(gl.STENCIL_TEST);
+      gl.uniform1f(quadOcclude, 0);
+      let first = back;
+      for (const layer of ["veil", "orbitFront"] as SimLayer[]) {
+        const n = buckets[layer].length;
+        if (!n) continue;
+        setLayerColors(style.theme.layers[layer]);
+        pointInstancesAt(first);
+        gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, n);
+        first += n;
+      }
+
+      gl.bindVertexArray(null);
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { createShowPlayer, parseShowScript, parseShowTime, type ShowKey } from "./show";
+
+// 记下 player 调了哪些 handler，设置值放在一个表里（渐变从这里读当前值）；
+// advance 按 dt 秒一步往前走（player 每步最多推进 1 s）
+function recorder(initial: Partial<Record<ShowKey, number>> = {}) {
+  const said: string[] = [];
+  const values: Partial<Record<ShowKey, number | string>> = { ...initial };
+  let clears = 0;
+  const player = createShowPlayer({
+    say: (text) => said.push(text),
+    clear: () => clears++,
+    set: (key, value) => (values[key] = value),
+    get: (key) => Number(values[key] ?? 0),
+  });
+  let now = 0;
+  function advance(seconds: number, dt = 0.5) {
+    player.play(now);
+    for (let t = 0; t < seconds - 1e-9; t += dt) {
+      now += dt * 1000;
+      player.tick(now);
+    }
+  }
+  return { player, advance, said, values, clears: () => clears };
+}
+
+describe("parseShowTime", () => {
+  it.each([
+    ["75", 75],
+    ["1:15", 75],
+    ["1:15.5", 75.5],
+    ["12s", 12],
+  ])("%s", (raw, expected) => {
+    expect(parseShowTime(raw)).toBe(expected);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseShowTime("soon")).toThrow('Bad time "soon"');
+  });
+});
+
+describe("parseShowScript (text)", () => {
+  it("parses cues, sorts them by time and keeps same-time order", () => {
+    const script = parseShowScript(["# intro", "0:05 say hello there", "2 speed 1.5 over 3", "2 clear"].join("\n"));
+    expect(script.loop).toBe(true);
+    expect(script.cues).toEqual([
+      { at: 2, type: "set", key: "speed", value: 1.5, over: 3 },
+      { at: 2, type: "clear" },
+      { at: 5, type: "say", text: "hello there" },
+    ]);
+  });
+
+  it("uses end for the duration, otherwise the last cue plus 5 s", () => {
+    expect(parseShowScript("1 say hi\n30 end").duration).toBe(30);
+    expect(parseShowScript("1 say hi").duration).toBe(6);
+  });
+
+  it("once stops looping", () => {
+    expect(parseShowScript("once\n1 say hi").loop).toBe(false);
+  });
+
+  it.each([
+    ["an unknown command", "1 say hi\n2 dance now", 'Line 2: Unknown command "dance"'],
+    ["a bad time", "soon say hi", 'Line 1: Bad time "soon"'],
+    ["say without text", "1 say", "Line 1: say needs some text"],
+    ["a line without a command", "12", "Line 1: Expected <time> <command>"],
+    ["a non-numeric number setting", "1 speed fast", "Line 1: speed needs a number"],
+    ["an unknown layout", "1 layout blob", 'Line 1: Unknown layout "blob"'],
+    ["a bad colour mode", "1 colors rainbow", 'Line 1: colors is "global" or "random"'],
+  ])("reports %s with its line", (_, source, message) => {
+    expect(() => parseShowScript(source)).toThrow(message);
+  });
+});
+
+describe("parseShowScript (JSON)", () => {
+  it("accepts an object or a bare cue list", () => {
+    const script = parseShowScript(
+      JSON.stringify({ loop: false, duration: 20, cues: [{ at: "0:10", type: "set", key: "size", value: 40, over: 2 }] })
+    );
+    expect(script).toEqual({ loop: false, duration: 20, cues: [{ at: 10, type: "set", key: "size", value: 40, over: 2 }] });
+    expect(parseShowScript('[{ "at": 1, "type": "clear" }]').cues).toEqual([{ at: 1, type: "clear" }]);
+  });
+
+  it("drops over on string settings", () => {
+    const [cue] = parseShowScript('[{ "at": 1, "type": "set", "key": "theme", "value": "neon", "over": 4 }]').cues;
+    expect(cue).toEqual({ at: 1, type: "set", key: "theme", value: "neon", over: 0 });
+  });
+
+  it.each([
+    ["not a script", '{ "cues": 3 }', "Not a show script"],
+    ["an unknown cue type", '[{ "at": 1, "type": "dance" }]', 'Cue 1: Unknown cue type "dance"'],
+    ["an unknown setting", '[{ "at": 1, "type": "clear" }, { "at": 2, "type": "set", "key": "zoom" }]', 'Cue 2: Unknown setting "zoom"'],
+    ["empty say text", '[{ "at": 1, "type": "say", "text": " " }]', "Cue 1: say needs some text"],
+    ["broken JSON", '{ "cues": [', "JSON"],
+  ])("reports %s", (_, source, message) => {
+    expect(() => parseShowScript(source)).toThrow(message);
+  });
+});
+
+describe("player", () => {
+  it("fires cues in order and loops back to the start", () => {
+    const { player, advance, said, clears } = recorder();
+    player.load(parseShowScript("1 say one\n2 say two\n3 clear\n4 end"));
+    advance(8.5);
+    expect(said).toEqual(["one", "two", "one", "two"]);
+    expect(clears()).toBe(2);
+    expect(player.state()).toBe("playing");
+  });
+
+  it("stops at the end of a once script", () => {
+    const { player, advance, said } = recorder();
+    player.load(parseShowScript("once\n1 say one\n2 end"));
+    advance(5);
+    expect(said).toEqual(["one"]);
+    expect(player.state()).toBe("stopped");
+    expect(player.time()).toBe(0);
+  });
+
+  it("seek applies the latest set before the target and skips says", () => {
+    const { player, said, values } = recorder();
+    player.load(parseShowScript("1 speed 1.2\n2 say skipped\n3 speed 0.5\n4 layout spiral\n8 speed 2\n10 end"));
+    player.seek(5);
+    expect(values).toEqual({ speed: 0.5, layout: "spiral" });
+    expect(said).toEqual([]);
+    expect(player.state()).toBe("paused");
+    expect(player.time()).toBe(5);
+  });
+
+  it("ramps a number from its current value", () => {
+    const { player, advance, values } = recorder({ speed: 1 });
+    player.load(parseShowScript("0 speed 2 over 2\n10 end"));
+    advance(1);
+    expect(values.speed).toBeCloseTo(1.5);
+    advance(2);
+    expect(values.speed).toBe(2);
+  });
+
+  it("finishes a ramp that is still running when the script loops", () => {
+    const { player, advance, values } = recorder({ size: 20 });
+    player.load(parseShowScript("1 size 60 over 10\n2 end"));
+    advance(2);
+    expect(values.size).toBe(60);
+  });
+
+  it("finishes a running ramp on stop", () => {
+    const { player, advance, values } = recorder({ veil: 0 });
+    player.load(parseShowScript("0 veil 40 over 4\n10 end"));
+    advance(1);
+    player.stop();
+    expect(values.veil).toBe(40);
+  });
+});
@@ -0,0 +1,313 @@
+import { LAYOUT_LABELS } from "./layout";
+
+// --- Show mode: a timed script of cues (say / set / clear), looped for exhibitions ---
+//
+// 脚本可以是 JSON，也可以是纯文本（一行一个 cue）：
+//
+//   # 注释
+//   loop                      （默认就是循环；once = 播完停下）
+//   0:05  say 你好，欢迎
+//   8     colors random
+//   10    speed 1.5 over 3    （3 秒内渐变过去）
+//   60    clear
+//   1:05  end                 （一轮的长度；不写 = 最后一个 cue 再过 5 秒）
+//
+// player 只管时间轴，真正怎么说话 / 改设置由 main 传进来的 handlers 决定。
+
+// 能改的设置；speed / size / veil 是数字，可以 over 渐变
+export type ShowKey = "speed" | "size" | "veil" | "colors" | "color" | "layout" | "preset" | "theme";
+
+export const SHOW_KEYS: Record<ShowKey, "number" | "string"> = {
+  speed: "number",  // × 转速
+  size: "number",   // 字号 px
+  veil: "number",   // veil 覆盖率 %
+  colors: "string", // global | random
+  color: "string",  // global 模式的颜色
+  layout: "string", // lanes | spiral | sphere | ribbon | crown
+  preset: "string", // physics 预设名
+  theme: "string",  // 主题 id 或名字
+};
+
+export type ShowCue =
+  | { at: number; type: "say"; text: string }
+  | { at: number; type: "clear" }
+  | { at: number; type: "set"; key: ShowKey; value: number | string; over: number };
+
+export type ShowScript = {
+  loop: boolean;
+  duration: number; // 一轮多长（s）
+  cues: ShowCue[];  // 按 at 排好
+};
+
+export type ShowSettings = {
+  script: string;  // 原文，下次打开接着用
+  attract: boolean; // 一段时间没人就自动播，有人走近就交还
+  idleSec: number;
+};
+
+export const DEFAULT_SHOW: ShowSettings = {
+  script: "",
+  attract: false,
+  idleSec: 30,
+};
+
+const TAIL_SEC = 5;
+const COLOR_MODES = ["global", "random"];
+
+// "75" / "1:15" / "1:15.5" / "12s"
+export function parseShowTime(raw: string) {
+  const m = /^(?:(\d+):)?(\d+(?:\.\d+)?)s?$/.exec(raw.trim());
+  if (!m) throw new Error(`Bad time "${raw}"`);
+  return Number(m[1] ?? 0) * 60 + Number(m[2]);
+}
+
+export function formatShowTime(sec: number) {
+  const s = Math.max(0, Math.floor(sec));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+function checkValue(key: ShowKey, value: unknown): number | string {
+  if (SHOW_KEYS[key] === "number") {
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new Error(`${key} needs a number`);
+    return n;
+  }
+  const s = String(value ?? "").trim();
+  if (!s) throw new Error(`${key} needs a value`);
+  if (key === "colors" && !COLOR_MODES.includes(s)) throw new Error(`colors is "global" or "random"`);
+  if (key === "layout" && !(s in LAYOUT_LABELS)) throw new Error(`Unknown layout "${s}"`);
+  return s;
+}
+
+function finish(cues: ShowCue[], loop: boolean, duration: number | null): ShowScript {
+  cues.sort((a, b) => a.at - b.at); // sort 是稳定的：同一时刻的 cue 保持原来的顺序
+  const last = cues.length ? cues[cues.length - 1].at : 0;
+  return { loop, duration: Math.max(duration ?? last + TAIL_SEC, 0.1), cues };
+}
+
+// --- Plain text ---
+
+function parseLine(at: number, command: string, rest: string): ShowCue {
+  if (command === "say") {
+    if (!rest) throw new Error("say needs some text");
+    return { at, type: "say", text: rest };
+  }
+  if (command === "clear") return { at, type: "clear" };
+  if (!(command in SHOW_KEYS)) throw new Error(`Unknown command "${command}"`);
+
+  const key = command as ShowKey;
+  // 数字的可以带 "over <秒>"
+  const ramp = SHOW_KEYS[key] === "number" ? /^(\S+)\s+over\s+(\S+)$/i.exec(rest) : null;
+  return {
+    at,
+    type: "set",
+    key,
+    value: checkValue(key, ramp ? ramp[1] : rest),
+    over: ramp ? parseShowTime(ramp[2]) : 0,
+  };
+}
+
+function parseText(text: string): ShowScript {
+  const cues: ShowCue[] = [];
+  let loop = true;
+  let duration: number | null = null;
+
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    if (line === "loop" || line === "once") {
+      loop = line === "loop";
+      return;
+    }
+    const m = /^(\S+)\s+(\S+)\s*(.*)$/.exec(line);
+    try {
+      if (!m) throw new Error("Expected <time> <command> …");
+      const at = parseShowTime(m[1]);
+      if (m[2] === "end") duration = at;
+      else cues.push(parseLine(at, m[2], m[3].trim()));
+    } catch (err) {
+      throw new Error(`Line ${i + 1}: ${err instanceof Error ? err.message : err}`);
+    }
+  });
+
+  return finish(cues, loop, duration);
+}
+
+// --- JSON ---
+//
+// { "loop": true, "duration": 65, "cues": [
+//   { "at": 5, "type": "say", "text": "hello" },
+//   { "at": "0:10", "type": "set", "key": "speed", "value": 1.5, "over": 3 },
+//   { "at": 60, "type": "clear" } ] }
+// 也可以直接是 cues 数组。
+
+function parseCue(json: unknown, i: number): ShowCue {
+  const c = (json && typeof json === "object" ? json : {}) as Record<string, unknown>;
+  try {
+    const at = typeof c.at === "number" ? c.at : parseShowTime(String(c.at ?? ""));
+    switch (c.type) {
+      case "say":
+        if (typeof c.text !== "string" || !c.text.trim()) throw new Error("say needs some text");
+        return { at, type: "say", text: c.text.trim() };
+      case "clear":
+        return { at, type: "clear" };
+      case "set": {
+        const key = String(c.key) as ShowKey;
+        if (!(key in SHOW_KEYS)) throw new Error(`Unknown setting "${c.key}"`);
+        const over = typeof c.over === "number" && SHOW_KEYS[key] === "number" ? Math.max(0, c.over) : 0;
+        return { at, type: "set", key, value: checkValue(key, c.value), over };
+      }
+      default:
+        throw new Error(`Unknown cue type "${c.type}"`);
+    }
+  } catch (err) {
+    throw new Error(`Cue ${i + 1}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function parseJson(json: unknown): ShowScript {
+  const s = (Array.isArray(json) ? { cues: json } : json) as Record<string, unknown>;
+  if (!s || typeof s !== "object" || !Array.isArray(s.cues)) throw new Error("Not a show script");
+  const duration = typeof s.duration === "number" ? s.duration : null;
+  return finish(s.cues.map(parseCue), s.loop !== false, duration);
+}
+
+// 以 { 或 [ 开头的当 JSON，其他当纯文本
+export function parseShowScript(source: string): ShowScript {
+  const trimmed = source.trim();
+  return /^[[{]/.test(trimmed) ? parseJson(JSON.parse(trimmed)) : parseText(trimmed);
+}
+
+export async function fetchShowScript(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return res.text();
+}
+
+// --- Player ---
+
+export type ShowState = "stopped" | "playing" | "paused";
+
+type ShowHandlers = {
+  say: (text: string) => void;
+  clear: () => void;
+  set: (key: ShowKey, value: number | string) => void;
+  get: (key: ShowKey) => number; // 渐变从当前值开始
+};
+
+type Ramp = { from: number; to: number; start: number; over: number };
+
+const MAX_STEP_SEC = 1; // 标签页切到后台回来时不要一下子把一大段 cue 全放出来
+
+export function createShowPlayer(handlers: ShowHandlers) {
+  let script: ShowScript | null = null;
+  let state: ShowState = "stopped";
+  let t = 0;    // 脚本时间（s）
+  let next = 0; // 下一个还没执行的 cue
+  let lastNow = 0;
+  const ramps = new Map<ShowKey, Ramp>();
+
+  function fire(cue: ShowCue) {
+    switch (cue.type) {
+      case "say":
+        handlers.say(cue.text);
+        break;
+      case "clear":
+        handlers.clear();
+        break;
+      case "set":
+        ramps.delete(cue.key);
+        if (cue.over > 0 && typeof cue.value === "number") {
+          ramps.set(cue.key, { from: handlers.get(cue.key), to: cue.value, start: cue.at, over: cue.over });
+        } else {
+          handlers.set(cue.key, cue.value);
+        }
+        break;
+    }
+  }
+
+  // 渐变到一半被打断（循环 / 跳转 / 停止）：直接落到目标值
+  function finishRamps() {
+    for (const [key, r] of ramps) handlers.set(key, r.to);
+    ramps.clear();
+  }
+
+  function stepRamps() {
+    for (const [key, r] of ramps) {
+      const k = Math.min(1, Math.max(0, (t - r.start) / r.over));
+      handlers.set(key, r.from + (r.to - r.from) * k);
+      if (k >= 1) ramps.delete(key);
+    }
+  }
+
+  function load(loaded: ShowScript | null) {
+    stop();
+    script = loaded;
+  }
+
+  function play(now: number) {
+    if (!script || state === "playing") return;
+    state = "playing";
+    lastNow = now;
+  }
+
+  function pause() {
+    if (state === "playing") state = "paused";
+  }
+
+  function stop() {
+    finishRamps();
+    state = "stopped";
+    t = 0;
+    next = 0;
+  }
+
+  // 跳到 to：中间的 say / clear 不补放，设置直接取到那时为止最后一次的值
+  function seek(to: number) {
+    if (!script) return;
+    finishRamps();
+    t = Math.max(0, Math.min(script.duration, to));
+    const latest = new Map<ShowKey, number | string>();
+    next = 0;
+    for (const cue of script.cues) {
+      if (cue.at > t) break;
+      if (cue.type === "set") latest.set(cue.key, cue.value);
+      next++;
+    }
+    for (const [key, value] of latest) handlers.set(key, value);
+    if (state === "stopped") state = "paused";
+  }
+
+  function tick(now: number) {
+    if (state !== "playing" || !script) return;
+    t += Math.min(MAX_STEP_SEC, Math.max(0, (now - lastNow) / 1000));
+    lastNow = now;
+
+    const { cues } = script;
+    while (next < cues.length && cues[next].at <= t) fire(cues[next++]);
+    stepRamps();
+
+    if (t < script.duration) return;
+    if (!script.loop) {
+      stop();
+      return;
+    }
+    finishRamps();
+    t -= script.duration;
+    next = 0;
+  }
+
+  return {
+    load,
+    play,
+    pause,
+    stop,
+    seek,
+    tick,
+    state: () => state,
+    time: () => t,
+    script: () => script,
+  };
+}
+
+export type ShowPlayer = ReturnType<typeof createShowPlayer>;
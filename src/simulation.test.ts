@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_LAYOUT } from "./layout";
+import { DEFAULT_LIFETIME } from "./lifetime";
+import { NO_ROTATION } from "./pose3d";
+import {
+  DEFAULT_RING,
+  DEFAULT_VEIL,
+  NO_DRIVE,
+  ORBIT,
+  ORBIT_DEFAULTS,
+  createCloud,
+  enforceCaps,
+  enqueueTokens,
+  expDecay,
+  removeEntry,
+  stepSimulation,
+  type HeadPose,
+  type ParticleCloud,
+  type SimSettings,
+} from "./simulation";
+
+// 固定种子，结果可复现
+function seeded(seed = 1) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const POSE: HeadPose = {
+  x: 400,
+  y: 300,
+  faceWidthPx: 200,
+  faceHeightPx: 260,
+  maskPts: null,
+  angles: NO_ROTATION,
+};
+
+function simSettings(overrides: Partial<SimSettings> = {}): SimSettings {
+  return {
+    speedMultiplier: 1,
+    lifetime: { ...DEFAULT_LIFETIME },
+    ring: { ...DEFAULT_RING },
+    veil: { ...DEFAULT_VEIL },
+    layout: { ...DEFAULT_LAYOUT },
+    fontSize: 28,
+    drive: NO_DRIVE,
+    ...overrides,
+  };
+}
+
+let nextEntry = 1;
+
+function say(cloud: ParticleCloud, tokens: string[], grouped = false) {
+  const entry = { id: nextEntry++, color: "#fff" };
+  enqueueTokens(cloud, tokens, entry, 0, grouped, seeded(entry.id));
+  return entry.id;
+}
+
+const live = (cloud: ParticleCloud) => cloud.orbitParticles.filter((p) => p.evictedAt === null);
+
+beforeEach(() => {
+  nextEntry = 1;
+});
+
+afterEach(() => {
+  Object.assign(ORBIT, ORBIT_DEFAULTS);
+});
+
+describe("lane / slot assignment", () => {
+  it("fills the lowest free slots in order and wraps lanes by laneCapacity", () => {
+    ORBIT.laneCapacity = 4;
+    ORBIT.maxLanes = 3;
+    const cloud = createCloud();
+    say(cloud, ["a", "b", "c", "d", "e", "f"]);
+
+    expect(cloud.orbitParticles.map((p) => p.slot)).toEqual([0, 1, 2, 3, 4, 5]);
+    // 第二圈从 slot 4 开始，起始角度回到 0 附近
+    const [first, , , , fifth] = cloud.orbitParticles;
+    expect(Math.abs(fifth.theta - first.theta)).toBeLessThan(ORBIT.laneJitter + 1e-9);
+  });
+
+  it("reuses a freed slot instead of stacking on a live token", () => {
+    ORBIT.laneCapacity = 4;
+    ORBIT.maxLanes = 2;
+    const cloud = createCloud();
+    const first = say(cloud, ["a", "b"]);
+    say(cloud, ["c", "d"]);
+    removeEntry(cloud, first);
+    say(cloud, ["e"]);
+
+    const e = cloud.orbitParticles.find((p) => p.token === "e")!;
+    expect(e.slot).toBe(0);
+    expect(new Set(live(cloud).map((p) => p.slot)).size).toBe(live(cloud).length);
+  });
+
+  it("puts a grouped thought on its lead's lane, centred and in reading order", () => {
+    const cloud = createCloud();
+    say(cloud, ["x"]);
+    say(cloud, ["one", "two", "three"], true);
+
+    const group = cloud.orbitParticles.filter((p) => p.groupSize === 3);
+    expect(group.map((p) => p.groupIndex)).toEqual([0, 1, 2]);
+    expect(new Set(group.map((p) => p.groupSlot))).toEqual(new Set([group[0].slot]));
+    expect(new Set(group.map((p) => p.theta)).size).toBe(1);
+    const arcs = group.map((p) => p.groupArc);
+    expect(arcs[0]).toBeLessThan(arcs[1]);
+    expect(arcs[1]).toBeLessThan(arcs[2]);
+    expect(arcs[0] + arcs[2]).toBeCloseTo(2 * arcs[1] + (group[2].span - group[0].span) / 2);
+  });
+});
+
+describe("eviction order", () => {
+  it("evicts the oldest live token when every slot is taken", () => {
+    ORBIT.laneCapacity = 3;
+    ORBIT.maxLanes = 1;
+    const cloud = createCloud();
+    say(cloud, ["a", "b", "c"]);
+    say(cloud, ["d"]);
+
+    const a = cloud.orbitParticles.find((p) => p.token === "a")!;
+    const d = cloud.orbitParticles.find((p) => p.token === "d")!;
+    expect(a.evictedAt).not.toBeNull();
+    expect(d.slot).toBe(a.slot);
+    expect(live(cloud).map((p) => p.token)).toEqual(["b", "c", "d"]);
+  });
+
+  it("skips tokens that are already dissolving", () => {
+    ORBIT.laneCapacity = 3;
+    ORBIT.maxLanes = 1;
+    const cloud = createCloud();
+    say(cloud, ["a", "b", "c"]);
+    say(cloud, ["d", "e"]);
+
+    expect(live(cloud).map((p) => p.token)).toEqual(["c", "d", "e"]);
+  });
+
+  it("enforceCaps trims veil copies before orbit tokens, oldest first", () => {
+    ORBIT.maxParticles = 6;
+    const cloud = createCloud();
+    say(cloud, ["a", "b", "c", "d"]);
+    // 假装 maintainVeil 已经放了 4 个副本
+    for (const p of cloud.orbitParticles) cloud.veilParticles.push({ ...p, kind: "veil", id: p.id + 100 });
+
+    enforceCaps(cloud);
+
+    expect(live(cloud)).toHaveLength(4);
+    const veilLive = cloud.veilParticles.filter((p) => p.evictedAt === null).map((p) => p.token);
+    expect(veilLive).toEqual(["c", "d"]);
+  });
+
+  it("does not throw when there are no slots at all", () => {
+    ORBIT.maxLanes = 0;
+    const cloud = createCloud();
+    say(cloud, ["a"]);
+    expect(() => say(cloud, ["b"])).not.toThrow();
+  });
+
+  it("enforceCaps hard-deletes the oldest dissolving tokens past twice the budget", () => {
+    ORBIT.maxParticles = 2;
+    ORBIT.laneCapacity = 2;
+    ORBIT.maxLanes = 1;
+    const cloud = createCloud();
+    for (const t of ["a", "b", "c", "d", "e", "f"]) say(cloud, [t]);
+
+    expect(cloud.orbitParticles.length).toBeLessThanOrEqual(4);
+    expect(cloud.orbitParticles.map((p) => p.token).slice(-2)).toEqual(["e", "f"]);
+  });
+});
+
+describe("veil", () => {
+  // 先让 maintainVeil 铺出一些副本
+  function veiled(random = seeded(7)) {
+    ORBIT.veilDriftAmp = 0;
+    const cloud = createCloud();
+    say(cloud, ["veil", "text", "here"]);
+    const settings = simSettings({ veil: { ...DEFAULT_VEIL, coverage: 0.4 } });
+    for (let i = 0; i < 30; i++) stepSimulation(cloud, POSE, [], 1 / 60, settings, i * 16, random);
+    return { cloud, settings, random };
+  }
+
+  it("maintains copies inside the head", () => {
+    const { cloud } = veiled();
+    expect(cloud.veilParticles.length).toBeGreaterThan(0);
+  });
+
+  it("returns a pushed copy to its origin", () => {
+    const { cloud, settings, random } = veiled();
+    const p = cloud.veilParticles.find((v) => v.evictedAt === null)!;
+    p.vx += 0.5;
+    p.vy -= 0.3;
+    const before = Math.hypot(p.vx - p.vx0, p.vy - p.vy0);
+
+    const steps = Math.ceil((ORBIT.veilReturnTau * 4) / (1 / 60));
+    for (let i = 0; i < steps; i++) stepSimulation(cloud, POSE, [], 1 / 60, settings, 1000 + i * 16, random);
+
+    expect(before).toBeGreaterThan(0.5);
+    expect(Math.hypot(p.vx - p.vx0, p.vy - p.vy0)).toBeLessThan(before * 0.05);
+  });
+
+  it("drops copies once their source text is removed", () => {
+    const { cloud, settings, random } = veiled();
+    removeEntry(cloud, 1);
+    const steps = Math.ceil((settings.lifetime.fadeOutSec + 0.5) * 60);
+    for (let i = 0; i < steps; i++) stepSimulation(cloud, POSE, [], 1 / 60, settings, 1000 + i * 16, random);
+
+    expect(cloud.veilParticles).toHaveLength(0);
+    expect(cloud.orbitParticles).toHaveLength(0);
+  });
+});
+
+describe("decay", () => {
+  it("expDecay falls by 1/e per tau", () => {
+    expect(expDecay(10, 2, 2)).toBeCloseTo(10 / Math.E);
+    expect(expDecay(10, 0, 2)).toBe(10);
+  });
+
+  it("brush offsets relax back to the lane", () => {
+    const cloud = createCloud();
+    say(cloud, ["a"]);
+    const p = cloud.orbitParticles[0];
+    p.radiusOffset = 50;
+    p.omegaOffset = 2;
+
+    const settings = simSettings();
+    const seconds = Math.max(ORBIT.tauRadius, ORBIT.tauOmega) * 5;
+    for (let t = 0; t < seconds; t += 1 / 60) stepSimulation(cloud, POSE, [], 1 / 60, settings, t * 1000, seeded());
+
+    expect(Math.abs(p.radiusOffset)).toBeLessThan(50 * 0.01);
+    expect(Math.abs(p.omegaOffset)).toBeLessThan(2 * 0.01);
+  });
+
+  it("removes tokens after their lifetime plus the fade-out", () => {
+    const cloud = createCloud();
+    say(cloud, ["a"]);
+    const lifetime = { ...DEFAULT_LIFETIME, infinite: false, seconds: 1, fadeOutSec: 0.5 };
+    const settings = simSettings({ lifetime, veil: { ...DEFAULT_VEIL, coverage: 0 } });
+
+    for (let t = 0; t < 1.4; t += 0.1) stepSimulation(cloud, POSE, [], 0.1, settings, t * 1000, seeded());
+    expect(cloud.orbitParticles).toHaveLength(1);
+
+    for (let t = 1.4; t < 1.7; t += 0.1) stepSimulation(cloud, POSE, [], 0.1, settings, t * 1000, seeded());
+    expect(cloud.orbitParticles).toHaveLength(0);
+  });
+});
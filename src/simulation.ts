@@ -0,0 +1,1171 @@
+// --- Particle simulation (pure: no DOM, no canvas, no globals) ---
+//
+// 输入：头部姿态（屏幕 px）、笔刷（指尖）、dt、settings
+// 输出：带位置 / 深度 / alpha / 缩放的可绘制粒子，由 render.ts 负责画出来
+
+import { isGone, lifeFactors, type LifetimeSettings } from "./lifetime";
+import { NO_ROTATION, rotate, rotationFromAngles, type HeadAngles, type Vec3 } from "./pose3d";
+import {
+  easeInOut,
+  fibonacciPoint,
+  spiralAngle,
+  tokenSpanEm,
+  type LayoutMode,
+  type LayoutSettings,
+} from "./layout";
+
+export type Point = { x: number; y: number };
+
+export type Particle = {
+  id: number;
+  entryId: number; // 来自哪一条 commit（history entry）
+  token: string;
+  color: string;
+
+  kind: "orbit" | "veil";
+  u: number;
+  biasY: number;
+
+  vx: number;   // ✅ 新增
+  vy: number;   // ✅ 新增
+  vx0: number; // ✅ 原位（初始位置）
+  vy0: number;
+  theta: number;
+  slot: number; // lanes 里的位置（分配时取最小的空位）
+  rank: number; // 在还活着的 orbit 字里按年龄排第几（sphere / crown 用，平滑跟随；-1 = 还没排）
+  seq: number;  // 第几个 orbit 字，只增不减（spiral 用）
+  arc: number;  // ribbon 上的起点和宽度（× 字号）
+  span: number;
+  unit: number; // veil 按什么复制：单独的字 = 自己的 id，整句 = 第一个字的 id（veil 副本抄原文的）
+  copy: number; // veil 副本编号（同一个副本的整句共用；orbit 是 0）
+  // 整句一起摆（grouped）时：句子里第几个字、一共几个、字的中心离句子中心多远（× 字号）、
+  // 第一个字的 slot（整句放在同一圈）。单独摆的字是 0 / 1 / 0 / 自己的 slot
+  groupIndex: number;
+  groupSize: number;
+  groupArc: number;
+  groupSlot: number;
+  radiusOffset: number;
+  omegaOffset: number;
+  spin: number;  // 笔刷搅出来的额外转角（lanes 以外的布局用，会慢慢回弹）
+  dragX: number; // orbit 松手后离布局位置的偏移（px，慢慢回弹）
+  dragY: number;
+  bornAt: number;
+
+  age: number;               // 秒，由 stepSimulation 按 dt 累加
+  evictedAt: number | null;  // 被挤掉 / 删除时的 age，之后开始消散
+
+  pinned: Point | null; // 被 pinch 抓住时固定在这个屏幕位置
+};
+
+// 一个人的 orbit + veil
+export type ParticleCloud = {
+  // ✅ 分开存
+  orbitParticles: Particle[];
+  veilParticles: Particle[];
+  orbitCounter: number;
+  arcCounter: number; // ribbon 写到哪了（× 字号）
+  nextId: number;
+  nextCopy: number;
+  layout: LayoutState;
+};
+
+// 一个 cloud 共用的布局状态（切换布局时在 from 和 mode 之间插值）
+type LayoutState = {
+  mode: LayoutMode;
+  from: LayoutMode;
+  blend: number;   // 0..1，1 = 过渡完成
+  phase: number;   // lanes 以外的布局整体转到哪了
+  seqBase: number; // spiral：最旧的字的序号（平滑跟随，旧字消失时整条螺线慢慢往里收）
+  arcHead: number; // ribbon：平滑跟随 arcCounter，新字进来时整条带子滑过去
+  count: number;   // sphere：球面上的点数（= 活着的 orbit 字数，平滑跟随）
+};
+
+export type HeadPose = {
+  x: number;
+  y: number;
+  faceWidthPx: number;
+  faceHeightPx: number;
+  maskPts: Point[] | null; // 头部遮罩轮廓（没有脸时为 null）
+  angles: HeadAngles;      // 头的朝向（没有 transformation matrix 时为 0）
+};
+
+// orbit 圆环的 3D 形状：
+//   inclination 圆环平面和水平面的夹角（度）：67 ≈ 原来的正面椭圆，~20 土星环，小角度 + lift = 光环
+//   lift        圆心沿头的“上”方向抬高多少（× 脸高）
+//   followHead  跟着头的 yaw / pitch / roll 一起转
+export type RingSettings = {
+  inclination: number;
+  lift: number;
+  followHead: boolean;
+};
+
+export const DEFAULT_RING: RingSettings = {
+  inclination: 67,
+  lift: 0,
+  followHead: true,
+};
+
+export type BrushForce = "repel" | "attract" | "swirl";
+
+export type Brush = Point & {
+  force: BrushForce;
+  strength: number; // 1 = ORBIT 里的默认力度
+  radius: number;   // px
+};
+
+// veil 盖住头部遮罩的程度：按面积补 / 撤副本，不再跟着提交过多少字越来越密
+export type VeilSettings = {
+  coverage: number;     // 0..1：veil 的字大约盖住遮罩面积的多少
+  reveal: boolean;      // 手靠近时 veil 变稀，露出脸
+  revealRadius: number; // px：手离头多近开始变稀
+};
+
+export const DEFAULT_VEIL: VeilSettings = {
+  coverage: 0.35,
+  reveal: false,
+  revealRadius: 220,
+};
+
+export type SimSettings = {
+  speedMultiplier: number;
+  lifetime: LifetimeSettings;
+  ring: RingSettings;
+  veil: VeilSettings;
+  layout: LayoutSettings;
+  fontSize: number; // ribbon / crown 按字号排间距
+  drive: SimDrive;
+};
+
+// 外部每帧给的调制（audio.ts），都是乘数，1 = 不变
+export type SimDrive = {
+  spin: number;   // × 转速（orbit / veil / 布局整体）
+  radius: number; // × orbit 半径（呼吸）
+  pulse: number;  // × 字的大小
+  drift: number;  // × veilDriftAmp
+};
+
+export const NO_DRIVE: SimDrive = { spin: 1, radius: 1, pulse: 1, drift: 1 };
+
+export type SimLayer = "orbitBack" | "veil" | "orbitFront";
+
+export type SimParticle = {
+  p: Particle;
+  x: number;
+  y: number;
+  depth: number; // -1 (后) .. 1 (前)
+  alpha: number;
+  scale: number;
+  layer: SimLayer;
+};
+
+// 手感全在这里：开发面板（tuning.ts）直接改这个对象，实时生效
+export const ORBIT = {
+  maxLanes: 12,         // orbit 最多几圈
+  laneGap: 26,
+  laneCapacity: 16,
+  laneJitter: 0.08,     // 同一圈里起始角度的随机抖动（rad）
+  maxParticles: 600,
+  baseRScale: 0.85,
+  orbitOmega: 0.9,      // rad/s（再乘 speed）
+  headRxScale: 0.60,    // 没有遮罩轮廓时的头部椭圆（× 脸宽 / 脸高）
+  headRyScale: 0.68,
+  sphereRScale: 1.1,    // sphere 布局的半径（× inner radius）
+  crownRScale: 0.5,     // crown 布局的半径（× 脸宽）
+  crownLift: 0.8,       // crown 离头部中心多高（× 脸高）
+  crownTilt: 15,        // crown 朝观众倾斜多少（度）
+
+  // brush
+  influenceRadius: 90,
+  repelStrength: 140,   // px/s^2-ish (we apply per frame)
+  swirlStrength: 3.2,   // rad/s
+  // decay (seconds)
+  tauRadius: 1.2,
+  tauOmega: 0.9,
+
+  veilPush: 220,      // 推开强度（越大越“拨开”）
+  veilReturnTau: 2.4, // 回流时间（秒，越大回得越慢）
+
+  veilDriftAmp: 0.09,   // ✅ veil 内部漂移幅度（0.03~0.09 调）
+  veilDriftFreq: 1.4,   // ✅ 漂移频率倍率（跟 speed 一起生效）
+
+  veilMaxCopies: 8,     // 每个字最多几个 veil 副本（WebGL 渲染时可以调高）
+  veilOmega: 0.45,
+  veilBiasMin: -0.65,   // 每个 veil 粒子的 y 偏移范围
+  veilBiasRange: 0.35,
+  veilBiasLift: 0.12,   // y 偏移 × veil 半高的比例
+  veilPadX: 1.08,       // 没有遮罩轮廓时 veil 比头部椭圆大多少
+  veilPadY: 1.12,
+};
+
+export type OrbitTuning = typeof ORBIT;
+
+// 出厂值（面板里的 Reset 用）
+export const ORBIT_DEFAULTS: Readonly<OrbitTuning> = { ...ORBIT };
+
+function resetLayout(layout: LayoutState) {
+  layout.seqBase = 0;
+  layout.arcHead = 0;
+  layout.count = 1;
+}
+
+export function createCloud(): ParticleCloud {
+  const layout: LayoutState = { mode: "lanes", from: "lanes", blend: 1, phase: 0, seqBase: 0, arcHead: 0, count: 1 };
+  return { orbitParticles: [], veilParticles: [], orbitCounter: 0, arcCounter: 0, nextId: 1, nextCopy: 1, layout };
+}
+
+export function clearCloud(cloud: ParticleCloud) {
+  cloud.orbitParticles.length = 0;
+  cloud.veilParticles.length = 0;
+  cloud.orbitCounter = 0;
+  cloud.arcCounter = 0;
+  cloud.nextId = 1;
+  cloud.nextCopy = 1;
+  resetLayout(cloud.layout);
+}
+
+// 标记为“正在离开”：不立刻删掉，而是在 fadeOutSec 内消散
+export function evict(p: Particle) {
+  if (p.evictedAt === null) p.evictedAt = p.age;
+}
+
+const isAlive = (p: Particle) => p.evictedAt === null;
+
+// 从最旧的开始，把 list 里还活着的字挤掉 count 个
+function evictOldest(list: Particle[], count: number) {
+  for (const p of list) {
+    if (count <= 0) return;
+    if (!isAlive(p)) continue;
+    evict(p);
+    count--;
+  }
+}
+
+export function enforceCaps(cloud: ParticleCloud) {
+  const { orbitParticles, veilParticles } = cloud;
+
+  // 你原来的总上限（只算还活着的，正在消散的不占名额）
+  const MAX_TOTAL = ORBIT.maxParticles;
+
+  // orbit 的“预算”：最多保留这么多（避免无限增长）
+  const orbitSlots = ORBIT.laneCapacity * ORBIT.maxLanes;
+  const MAX_ORBITS = orbitSlots;
+
+  const liveOrbits = orbitParticles.filter(isAlive).length;
+  const liveVeils = veilParticles.filter(isAlive).length;
+
+  // 1) 先限制 orbit 自身不要无限长
+  if (liveOrbits > MAX_ORBITS) {
+    evictOldest(orbitParticles, liveOrbits - MAX_ORBITS);
+  }
+
+  // 2) 再限制总量：超了先挤掉 veil
+  const total = Math.min(liveOrbits, MAX_ORBITS) + liveVeils;
+  if (total > MAX_TOTAL) {
+    let excess = total - MAX_TOTAL;
+
+    // ✅ 先挤 veil（关键）
+    const fromVeil = Math.min(excess, liveVeils);
+    evictOldest(veilParticles, fromVeil);
+    excess -= fromVeil;
+
+    // 如果 veil 不够，再挤 orbit（一般不会发生）
+    if (excess > 0) evictOldest(orbitParticles, excess);
+  }
+
+  // 3) 疯狂输入时正在消散的字也可能堆很多：超过两倍上限就直接删最旧的
+  const hardCap = MAX_TOTAL * 2;
+  const overflow = orbitParticles.length + veilParticles.length - hardCap;
+  if (overflow > 0) {
+    const fromVeil = Math.min(overflow, veilParticles.length);
+    veilParticles.splice(0, fromVeil);
+    orbitParticles.splice(0, overflow - fromVeil);
+  }
+}
+
+// 最小的空位；满了就挤掉最旧的字，用它的位置（以前按计数器取模，新字会叠在还活着的旧字上）
+function freeSlot(cloud: ParticleCloud, slots: number) {
+  const used = new Set<number>();
+  for (const p of cloud.orbitParticles) if (isAlive(p)) used.add(p.slot);
+  for (let i = 0; i < slots; i++) if (!used.has(i)) return i;
+
+  // 0 个位置（lanes / capacity 被调成 0）时也不要崩
+  const oldest = cloud.orbitParticles.find(isAlive);
+  if (slots <= 0 || !oldest) return 0;
+  evict(oldest);
+  return oldest.slot;
+}
+
+// grouped：一条 thought 的字连成一句——orbit 同一圈、同一个起始角度，按原文顺序和字宽排开；
+// veil 的副本也整句一起加（见 maintainVeil）
+//
+// veil 副本不在这里生成：stepSimulation 每帧按遮罩面积补 / 撤（需要这一帧的头部轮廓）
+export function enqueueTokens(
+  cloud: ParticleCloud,
+  tokens: string[],
+  entry: { id: number; color: string },
+  now: number,
+  grouped = false,
+  random: () => number = Math.random
+) {
+  const spans = tokens.map(tokenSpanEm);
+  const width = spans.reduce((sum, s) => sum + s, 0);
+  let lead: Particle | null = null;
+  let along = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const span = spans[i];
+    const groupArc = grouped ? along + span / 2 - width / 2 : 0;
+    along += span;
+
+    const orbitSlots = ORBIT.laneCapacity * ORBIT.maxLanes;
+    const slot = freeSlot(cloud, orbitSlots);
+    const idxInLane = slot % ORBIT.laneCapacity;
+
+    const theta0 = lead
+      ? lead.theta
+      : (idxInLane / ORBIT.laneCapacity) * Math.PI * 2 + (random() - 0.5) * ORBIT.laneJitter;
+
+    const id = cloud.nextId++;
+    const p: Particle = {
+      id,
+      entryId: entry.id,
+      token: tokens[i],
+      color: entry.color,
+
+      kind: "orbit",
+      u: 0,
+      biasY: 0,
+
+      vx: 0,
+      vy: 0,
+      vx0: 0, // ✅ 补齐，避免 TS 报错
+      vy0: 0,
+
+      theta: theta0,
+      slot,
+      rank: -1,
+      seq: cloud.orbitCounter++,
+      arc: cloud.arcCounter,
+      span,
+      unit: lead ? lead.unit : id,
+      copy: 0,
+      groupIndex: grouped ? i : 0,
+      groupSize: grouped ? tokens.length : 1,
+      groupArc,
+      groupSlot: lead ? lead.slot : slot,
+      radiusOffset: 0,
+      omegaOffset: 0,
+      spin: 0,
+      dragX: 0,
+      dragY: 0,
+      bornAt: now,
+      age: 0,
+      evictedAt: null,
+      pinned: null,
+    };
+    cloud.orbitParticles.push(p);
+    cloud.arcCounter += span;
+    if (grouped) lead ??= p;
+  }
+
+  // cap（可保留）
+  enforceCaps(cloud);
+}
+
+// 删掉某一条 entry 的所有字（orbit + veil），同样是消散而不是瞬间消失
+export function removeEntry(cloud: ParticleCloud, entryId: number) {
+  for (const p of cloud.orbitParticles) if (p.entryId === entryId) evict(p);
+  for (const p of cloud.veilParticles) if (p.entryId === entryId) evict(p);
+}
+
+// 把已经完全消散的字从数组里移走（保持原有顺序 = 年龄顺序）
+function sweepGone(list: Particle[], life: LifetimeSettings) {
+  let w = 0;
+  for (const p of list) {
+    if (!isGone(p.age, p.evictedAt, life)) list[w++] = p;
+  }
+  list.length = w;
+}
+
+export function recolorEntry(cloud: ParticleCloud, entryId: number, color: string) {
+  for (const p of cloud.orbitParticles) if (p.entryId === entryId) p.color = color;
+  for (const p of cloud.veilParticles) if (p.entryId === entryId) p.color = color;
+}
+
+export function expDecay(value: number, dt: number, tau: number) {
+  // dt in seconds
+  const k = Math.exp(-dt / Math.max(0.0001, tau));
+  return value * k;
+}
+
+export function boundsOfPts(pts: Point[]) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of pts) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+export function polygonArea(pts: Point[]) {
+  let a = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    a += pts[j].x * pts[i].y - pts[i].x * pts[j].y;
+  }
+  return Math.abs(a) / 2;
+}
+
+export function pointInPolygon(pts: Point[], x: number, y: number) {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i];
+    const b = pts[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+// 没有遮罩轮廓时用的头部椭圆
+export function headRadii(pose: HeadPose) {
+  return {
+    rx: pose.faceWidthPx * ORBIT.headRxScale,
+    ry: pose.faceHeightPx * ORBIT.headRyScale,
+  };
+}
+
+function veilRadii(pose: HeadPose) {
+  const { rx: headRx, ry: headRy } = headRadii(pose);
+  const headBounds = pose.maskPts ? boundsOfPts(pose.maskPts) : null;
+
+  const veilRx = headBounds
+    ? ((headBounds.maxX - headBounds.minX) * 0.5) * 1.01
+    : headRx * ORBIT.veilPadX;
+
+  const veilRy = headBounds
+    ? ((headBounds.maxY - headBounds.minY) * 0.5) * 1.01
+    : headRy * ORBIT.veilPadY;
+
+  return { veilRx, veilRy };
+}
+
+// 一个头这一帧的圆环坐标系（屏幕 px）：
+//   点 = center + r * (cosθ * u + sinθ * w) + h * up，u / w 是圆环平面里的两个单位向量
+type RingFrame = {
+  cx: number;
+  cy: number;
+  u: Vec3;
+  w: Vec3;
+  up: Vec3;      // 圆环平面的法线（crown 往上叠、sphere 的竖轴）
+  zSpan: number; // 单位圆上 z 的最大值，用来把 depth 归一化到 -1..1
+};
+
+function tiltedFrame(pose: HeadPose, inclination: number, lift: number, followHead: boolean): RingFrame {
+  const incl = (inclination * Math.PI) / 180;
+  const m = rotationFromAngles(followHead ? pose.angles : NO_ROTATION);
+
+  // 水平圆环往观众方向倾斜 inclination：前半圈在下面（和原来的椭圆一致）
+  const u = rotate(m, { x: 1, y: 0, z: 0 });
+  const w = rotate(m, { x: 0, y: Math.sin(incl), z: Math.cos(incl) });
+  const up = rotate(m, { x: 0, y: -Math.cos(incl), z: Math.sin(incl) });
+  const l = rotate(m, { x: 0, y: -lift * pose.faceHeightPx, z: 0 });
+
+  return { cx: pose.x + l.x, cy: pose.y + l.y, u, w, up, zSpan: Math.hypot(u.z, w.z) };
+}
+
+function ringFrame(pose: HeadPose, ring: RingSettings): RingFrame {
+  return tiltedFrame(pose, ring.inclination, ring.lift, ring.followHead);
+}
+
+// 每种布局用的坐标系：lanes / spiral / ribbon 跟着圆环设置，sphere 绕头的竖轴，crown 在头顶
+type LayoutFrames = { ring: RingFrame; sphere: RingFrame; crown: RingFrame };
+
+function layoutFrames(pose: HeadPose, ring: RingSettings): LayoutFrames {
+  return {
+    ring: ringFrame(pose, ring),
+    sphere: tiltedFrame(pose, 0, 0, ring.followHead),
+    crown: tiltedFrame(pose, ORBIT.crownTilt, ORBIT.crownLift, ring.followHead),
+  };
+}
+
+function laneRadius(p: Particle, pose: HeadPose) {
+  const baseR = pose.faceWidthPx * ORBIT.baseRScale;
+  return baseR + Math.floor(p.groupSlot / ORBIT.laneCapacity) * ORBIT.laneGap;
+}
+
+// 句子中心在 seq / rank 序列里的位置（单独的字就是自己）
+const groupCenter = (p: Particle, at: number) => at - p.groupIndex + (p.groupSize - 1) / 2;
+
+// 沿半径 r 的圆弧，从句子中心走到这个字要转多少（后面的字角度小 = 正面看在右边）
+const groupTurn = (p: Particle, em: number, r: number) => (p.groupArc * em) / Math.max(1, r);
+
+function onFrame(f: RingFrame, theta: number, r: number, h = 0) {
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  return {
+    x: f.cx + r * (c * f.u.x + s * f.w.x) + h * f.up.x,
+    y: f.cy + r * (c * f.u.y + s * f.w.y) + h * f.up.y,
+  };
+}
+
+// 真实的 3D 深度（-1 后 .. 1 前）；圆环正对镜头时没有前后，全部算 0
+function orbitDepth(theta: number, ring: RingFrame) {
+  if (ring.zSpan < 0.05) return 0;
+  return (Math.cos(theta) * ring.u.z + Math.sin(theta) * ring.w.z) / ring.zSpan;
+}
+
+type Placed = Point & { depth: number; alpha: number };
+
+// orbit 字在某个布局里的位置（还没加松手偏移 drag）
+function layoutPoint(
+  mode: LayoutMode,
+  p: Particle,
+  pose: HeadPose,
+  layout: LayoutState,
+  frames: LayoutFrames,
+  em: number,
+  breathe: number
+): Placed {
+  const baseR = pose.faceWidthPx * ORBIT.baseRScale * breathe;
+  const theta = layout.phase + p.spin;
+
+  switch (mode) {
+    case "lanes": {
+      const r = laneRadius(p, pose) * breathe;
+      const t = p.theta - groupTurn(p, em, r);
+      return { ...onFrame(frames.ring, t, r + p.radiusOffset), depth: orbitDepth(t, frames.ring), alpha: 1 };
+    }
+    case "spiral": {
+      // 最里圈的字距和 lanes 一样，每转一圈往外一个 laneGap
+      const b = ORBIT.laneGap / (Math.PI * 2);
+      const spacing = (Math.PI * 2 * baseR) / Math.max(1, ORBIT.laneCapacity);
+      const phi = spiralAngle(Math.max(0, groupCenter(p, p.seq) - layout.seqBase) * spacing, baseR, b);
+      const r = baseR + b * phi;
+      const t = theta - phi - groupTurn(p, em, r);
+      return { ...onFrame(frames.ring, t, r + p.radiusOffset), depth: orbitDepth(t, frames.ring), alpha: 1 };
+    }
+    case "ribbon": {
+      // 前半圈是从右往左转的：越早的字角度越大（越靠左），正面读起来是从左到右
+      const r = baseR + ORBIT.laneGap;
+      const behind = ((layout.arcHead - p.arc - p.span / 2) * em) / r;
+      const t = theta + behind;
+      // 只有一圈：快转满的旧字淡出（不删，切回别的布局还在），不然首尾叠在一起
+      const full = Math.PI * 2 * 0.9;
+      const alpha = Math.max(0, Math.min(1, (full - behind) / 0.5));
+      return { ...onFrame(frames.ring, t, r + p.radiusOffset), depth: orbitDepth(t, frames.ring), alpha };
+    }
+    case "sphere": {
+      const f = frames.sphere;
+      // 整句沿着纬线排
+      const pt = fibonacciPoint(groupCenter(p, p.rank), layout.count);
+      const r = baseR * ORBIT.sphereRScale + p.radiusOffset;
+      const t = theta + pt.theta - groupTurn(p, em, r * Math.max(0.2, pt.r));
+      const pos = onFrame(f, t, r * pt.r, r * pt.y);
+      return { ...pos, depth: pt.r * (Math.cos(t) * f.u.z + Math.sin(t) * f.w.z) + pt.y * f.up.z, alpha: 1 };
+    }
+    case "crown": {
+      // 一圈放不下就往上再叠一圈（小一点，错开半格）；rank 是小数，所以换圈也是连续的
+      const crownR = pose.faceWidthPx * ORBIT.crownRScale * breathe;
+      const perTier = Math.max(6, Math.floor((Math.PI * 2 * crownR) / (em * 1.4)));
+      const at = groupCenter(p, p.rank);
+      const tier = at / perTier;
+      const r = crownR * Math.max(0.4, 1 - 0.08 * tier);
+      const t = theta - ((at + Math.floor(tier) * 0.5) / perTier) * Math.PI * 2 - groupTurn(p, em, r);
+      return {
+        ...onFrame(frames.crown, t, r + p.radiusOffset, tier * em * 1.1),
+        depth: orbitDepth(t, frames.crown),
+        alpha: 1,
+      };
+    }
+  }
+}
+
+// 过渡中：旧布局和新布局的位置插值
+function placeOrbit(
+  p: Particle,
+  pose: HeadPose,
+  layout: LayoutState,
+  frames: LayoutFrames,
+  em: number,
+  breathe: number
+): Placed {
+  const to = layoutPoint(layout.mode, p, pose, layout, frames, em, breathe);
+  if (layout.blend >= 1 || layout.from === layout.mode) return to;
+
+  const from = layoutPoint(layout.from, p, pose, layout, frames, em, breathe);
+  const k = easeInOut(layout.blend);
+  return {
+    x: from.x + (to.x - from.x) * k,
+    y: from.y + (to.y - from.y) * k,
+    depth: from.depth + (to.depth - from.depth) * k,
+    alpha: from.alpha + (to.alpha - from.alpha) * k,
+  };
+}
+
+function placeVeil(p: Particle, pose: HeadPose, veilRx: number, veilRy: number, em: number): Point {
+  if (p.pinned) return p.pinned;
+
+  // 整句的副本横着排，不跟着转（转起来就读不了了）
+  const headX = pose.x + p.groupArc * em;
+  const headY = pose.y;
+
+  // ✅ veil：顺时针持续旋转（由 p.theta 驱动，speed slider 会影响 p.theta）
+  const phi = p.theta; // 方向反了就改成 -p.theta
+  const c = Math.cos(phi);
+  const s = Math.sin(phi);
+
+  // 用“当前被交互影响后的局部坐标”来旋转（关键）
+  const vx = p.vx;
+  const vy = Math.max(-0.95, Math.min(0.95, p.vy)); // clamp 生效
+
+  // 前向旋转：局部(vx,vy) -> 旋转后的(rvx,rvy)
+  const rvx = vx * c - vy * s;
+  const rvy = vx * s + vy * c;
+
+  return {
+    x: headX + veilRx * rvx,
+    y: headY + veilRy * rvy + (p.biasY * veilRy * ORBIT.veilBiasLift),
+  };
+}
+
+// Brush interaction: 每只手（每个指尖）都是一个笔刷
+//   repel   推开 + 轻微旋转（原来的手感）
+//   attract 往指尖吸
+//   swirl   只沿切向搅动
+function applyBrush(
+  p: Particle,
+  pos: Point,
+  brush: Brush,
+  dt: number,
+  veilRx: number,
+  veilRy: number
+) {
+  const dx = pos.x - brush.x;
+  const dy = pos.y - brush.y;
+  const dist = Math.hypot(dx, dy);
+
+  if (dist >= brush.radius) return;
+  const t = 1 - dist / brush.radius;
+  const k = t * dt * brush.strength;
+
+  if (p.kind === "veil") {
+    const nx = dx / (dist + 1e-6);
+    const ny = dy / (dist + 1e-6);
+
+    // push in screen space (CSS px)
+    const pushPx = ORBIT.veilPush * k;
+
+    // 推力方向：repel 沿径向向外，attract 向内，swirl 沿切向
+    const [fx, fy] =
+      brush.force === "attract" ? [-nx, -ny]
+      : brush.force === "swirl" ? [-ny, nx]
+      : [nx, ny];
+
+    // ✅ 关键：把“屏幕推力”转成“veil局部(vx/vy)推力”
+    const phi = p.theta; // 与你 draw 里用的旋转角保持一致
+    const c = Math.cos(phi);
+    const s = Math.sin(phi);
+
+    // 屏幕位移 -> 归一化到椭圆坐标
+    const lx = (fx * pushPx) / (veilRx + 1e-6);
+    const ly = (fy * pushPx) / (veilRy + 1e-6);
+
+    // 逆旋转（rotation matrix transpose）
+    const dvx = c * lx + s * ly;
+    const dvy = -s * lx + c * ly;
+
+    p.vx += dvx;
+    p.vy += dvy;
+
+    // ✅ 限制范围，避免飞太远（建议更紧一点）
+    p.vx = Math.max(-1.2, Math.min(1.2, p.vx));
+    p.vy = Math.max(-0.95, Math.min(0.95, p.vy));
+  } else if (brush.force === "attract") {
+    // 吸到指尖附近就不再往里拉，避免穿过头部
+    p.radiusOffset -= ORBIT.repelStrength * k * Math.min(1, dist / 20);
+    p.omegaOffset += ORBIT.swirlStrength * k * 0.5;
+  } else if (brush.force === "swirl") {
+    p.omegaOffset += ORBIT.swirlStrength * k * 2.5;
+  } else {
+    // ✅ orbit：保持你原来的推开逻辑
+    p.radiusOffset += ORBIT.repelStrength * k;
+    p.omegaOffset += ORBIT.swirlStrength * k;
+  }
+}
+
+// 松手：把当前屏幕位置反算回 orbit / veil 参数，之后靠原来的衰减 / 回流慢慢归位
+//   lanes 以外的布局没法反算：抓着的时候一直记着离布局位置的偏移（drag），松手后它慢慢回弹
+export function unpinParticle(p: Particle, pose: HeadPose, ring: RingSettings, layout: LayoutMode, em: number) {
+  const pos = p.pinned;
+  if (!pos) return;
+  p.pinned = null;
+
+  if (p.kind === "orbit") {
+    if (layout !== "lanes") return;
+    p.dragX = 0;
+    p.dragY = 0;
+
+    // 解 (dx, dy) = A * u.xy + B * w.xy，其中 A = r cosθ, B = r sinθ
+    const f = ringFrame(pose, ring);
+    const dx = pos.x - f.cx;
+    const dy = pos.y - f.cy;
+    const det = f.u.x * f.w.y - f.w.x * f.u.y;
+    if (Math.abs(det) < 1e-3) return; // 圆环侧对镜头：没法反算，原地松手
+
+    const A = (dx * f.w.y - dy * f.w.x) / det;
+    const B = (f.u.x * dy - f.u.y * dx) / det;
+    p.theta = Math.atan2(B, A);
+    p.radiusOffset = Math.hypot(A, B) - laneRadius(p, pose);
+    return;
+  }
+
+  const { veilRx, veilRy } = veilRadii(pose);
+  const local = veilLocalAt({ x: pos.x - p.groupArc * em, y: pos.y }, p.theta, p.biasY, pose, veilRx, veilRy);
+  p.vx = local.x;
+  p.vy = local.y;
+}
+
+// veil：placeVeil 的逆变换（先去掉 biasY，再逆旋转）
+function veilLocalAt(pos: Point, theta: number, biasY: number, pose: HeadPose, veilRx: number, veilRy: number) {
+  const rvx = (pos.x - pose.x) / veilRx;
+  const rvy = (pos.y - pose.y - biasY * veilRy * ORBIT.veilBiasLift) / veilRy;
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  return { x: c * rvx + s * rvy, y: -s * rvx + c * rvy };
+}
+
+// Update angles + decay
+function advanceParticle(p: Particle, dt: number, settings: SimSettings) {
+  p.age += dt;
+  if (p.pinned) return;
+
+  p.radiusOffset = expDecay(p.radiusOffset, dt, ORBIT.tauRadius);
+  p.spin = expDecay(p.spin, dt, ORBIT.tauRadius) + p.omegaOffset * dt;
+  p.omegaOffset = expDecay(p.omegaOffset, dt, ORBIT.tauOmega);
+  p.dragX = expDecay(p.dragX, dt, ORBIT.tauRadius);
+  p.dragY = expDecay(p.dragY, dt, ORBIT.tauRadius);
+
+  const omegaBase = p.kind === "veil" ? ORBIT.veilOmega : ORBIT.orbitOmega;
+  const omega = (omegaBase * settings.speedMultiplier * settings.drive.spin) + p.omegaOffset;
+  p.theta += omega * dt;
+  if (p.kind !== "veil") return;
+
+  // ✅ speed 会影响 p.theta（你上面 omega 里已经 * settings.speedMultiplier 了）
+  // 所以只要 drift 用 theta，就天然被 speed 控制
+  const phase = p.theta * ORBIT.veilDriftFreq;
+
+  // ✅ 越靠外圈(u 越大)漂移稍微更明显一点（你也可以反过来）
+  const amp = ORBIT.veilDriftAmp * settings.drive.drift * (0.35 + 0.65 * p.u);
+
+  // ✅ 用 id 做去同步，避免所有字一起晃（同一句的副本按副本编号，整句一起晃）
+  const j = (p.groupSize > 1 ? p.copy : p.id) * 0.37;
+
+  // ✅ “移动的原位”目标点（一直在缓慢漂）
+  const targetVx = p.vx0 + amp * Math.cos(phase + j);
+  const targetVy = p.vy0 + amp * Math.sin(phase * 0.9 + j);
+
+  // ✅ 强回弹：但回弹到 target，而不是静止的 vx0/vy0
+  const k = Math.exp(-dt / ORBIT.veilReturnTau);
+  p.vx = targetVx + (p.vx - targetVx) * k;
+  p.vy = targetVy + (p.vy - targetVy) * k;
+
+  // ✅ 可选：防止漂出太多（建议先留着）
+  p.vx = Math.max(-1.4, Math.min(1.4, p.vx));
+  p.vy = Math.max(-1.4, Math.min(1.4, p.vy));
+}
+
+// 前后半圈的大小 / 透明度曲线（veil 按离中心的距离淡出）
+function appearance(p: Particle, depth: number) {
+  const isVeil = p.kind === "veil";
+  const t = (depth + 1) / 2;
+
+  const scale = isVeil
+    ? (1.00 + 0.10 * t)
+    : (0.65 + 0.75 * t);
+
+  const veilFade = Math.pow(1 - p.u, 0.9);
+  const alpha = isVeil
+    ? (0.20 + 0.85 * veilFade)
+    : (0.10 + 0.90 * t);
+
+  return { scale, alpha };
+}
+
+// 同一句里相邻的字用弹簧连着：笔刷推开一个字会带着邻居一起走，之后整句一起回弹
+const GROUP_LINK_SEC = 0.15;
+
+type LinkedKey = "theta" | "spin" | "radiusOffset" | "dragX" | "dragY" | "vx" | "vy";
+
+const ORBIT_LINKED: LinkedKey[] = ["theta", "spin", "radiusOffset", "dragX", "dragY"];
+const VEIL_LINKED: LinkedKey[] = ["vx", "vy"];
+
+function linkNeighbours(list: Particle[], keys: LinkedKey[], dt: number) {
+  const k = 0.5 * (1 - Math.exp(-dt / GROUP_LINK_SEC));
+  for (let i = 1; i < list.length; i++) {
+    const a = list[i - 1];
+    const b = list[i];
+    if (a.entryId !== b.entryId || a.copy !== b.copy || b.groupIndex !== a.groupIndex + 1) continue;
+    for (const key of keys) {
+      const d = (b[key] - a[key]) * k;
+      if (!a.pinned) a[key] += d;
+      if (!b.pinned) b[key] -= d;
+    }
+  }
+}
+
+const LAYOUT_FOLLOW_SEC = 0.5; // spiral / ribbon / sphere 跟上新字、旧字的平滑时间
+
+// 切布局、整体转动、各布局的平滑量
+function advanceLayout(cloud: ParticleCloud, dt: number, settings: SimSettings) {
+  const layout = cloud.layout;
+  const { mode, transitionSec } = settings.layout;
+  if (mode !== layout.mode) {
+    layout.from = layout.mode;
+    layout.mode = mode;
+    layout.blend = 0;
+  }
+  layout.blend = Math.min(1, layout.blend + dt / Math.max(0.001, transitionSec));
+  layout.phase += ORBIT.orbitOmega * settings.speedMultiplier * settings.drive.spin * dt;
+
+  const k = 1 - Math.exp(-dt / LAYOUT_FOLLOW_SEC);
+
+  // 旧字消失时后面的字平滑地补上去；新字直接排到最后
+  let live = 0;
+  for (const p of cloud.orbitParticles) {
+    if (!isAlive(p)) continue;
+    p.rank = p.rank < 0 ? live : p.rank + (live - p.rank) * k;
+    live++;
+  }
+
+  const oldest = cloud.orbitParticles.find(isAlive);
+  layout.seqBase += ((oldest?.seq ?? cloud.orbitCounter) - layout.seqBase) * k;
+  layout.arcHead += (cloud.arcCounter - layout.arcHead) * k;
+  layout.count += (Math.max(1, live) - layout.count) * k;
+}
+
+// --- Veil coverage: hold a target share of the head mask, blue-noise placement ---
+
+const VEIL_CANDIDATES = 8;        // best-candidate 采样：每次试几个点，取离已有的字最远的
+const VEIL_CHANGES_PER_FRAME = 4; // 每帧最多补 / 撤几个副本（变化是渐进的）
+
+// 头部遮罩：真实轮廓（headMaskPts），没有时用头部椭圆
+type MaskShape = {
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  inside: (x: number, y: number) => boolean;
+};
+
+function maskShape(pose: HeadPose): MaskShape {
+  const pts = pose.maskPts;
+  if (pts && pts.length >= 3) {
+    return { ...boundsOfPts(pts), area: polygonArea(pts), inside: (x, y) => pointInPolygon(pts, x, y) };
+  }
+  const { rx, ry } = headRadii(pose);
+  return {
+    area: Math.PI * rx * ry,
+    minX: pose.x - rx,
+    minY: pose.y - ry,
+    maxX: pose.x + rx,
+    maxY: pose.y + ry,
+    inside: (x, y) => ((x - pose.x) / rx) ** 2 + ((y - pose.y) / ry) ** 2 <= 1,
+  };
+}
+
+function randomInside(shape: MaskShape, random: () => number): Point | null {
+  for (let i = 0; i < 16; i++) {
+    const x = shape.minX + random() * (shape.maxX - shape.minX);
+    const y = shape.minY + random() * (shape.maxY - shape.minY);
+    if (shape.inside(x, y)) return { x, y };
+  }
+  return null;
+}
+
+// 已有 veil 字的位置，按格子存，查最近距离不用遍历全部
+function createPointGrid(cell: number) {
+  const cells = new Map<string, Point[]>();
+  const keyOf = (ix: number, iy: number) => `${ix},${iy}`;
+  return {
+    add(p: Point) {
+      const key = keyOf(Math.floor(p.x / cell), Math.floor(p.y / cell));
+      const list = cells.get(key);
+      if (list) list.push(p);
+      else cells.set(key, [p]);
+    },
+    // 只看周围一圈格子；都没有就当作“很远”
+    nearest(x: number, y: number) {
+      const ix = Math.floor(x / cell);
+      const iy = Math.floor(y / cell);
+      let best = cell * 2;
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (const p of cells.get(keyOf(ix + dx, iy + dy)) ?? []) {
+            best = Math.min(best, Math.hypot(p.x - x, p.y - y));
+          }
+        }
+      }
+      return best;
+    },
+  };
+}
+
+// 一个“复制单位”：单独的字，或者整句（grouped）
+type VeilUnit = {
+  tokens: Particle[];                // 还活着的原文（orbit）
+  area: number;                      // 一个副本大约盖住多少 px²
+  copies: Map<number, Particle[]>;   // copy 编号 -> 这个副本的 veil 字（按加入顺序 = 最旧的在前）
+};
+
+function veilUnits(cloud: ParticleCloud, em: number) {
+  const units = new Map<number, VeilUnit>();
+  for (const p of cloud.orbitParticles) {
+    if (!isAlive(p)) continue;
+    let unit = units.get(p.unit);
+    if (!unit) units.set(p.unit, (unit = { tokens: [], area: 0, copies: new Map() }));
+    unit.tokens.push(p);
+    unit.area += p.span * em * em;
+  }
+  for (const p of cloud.veilParticles) {
+    if (!isAlive(p)) continue;
+    const unit = units.get(p.unit);
+    // 原文已经不在了（过期 / 删掉 / 被挤掉）：副本跟着消散
+    if (!unit) {
+      evict(p);
+      continue;
+    }
+    let copy = unit.copies.get(p.copy);
+    if (!copy) unit.copies.set(p.copy, (copy = []));
+    copy.push(p);
+  }
+  return units;
+}
+
+function pushVeil(cloud: ParticleCloud, source: Particle, now: number, local: Point, theta: number, biasY: number, copy: number) {
+  const u = Math.min(1, Math.hypot(local.x, local.y));
+  cloud.veilParticles.push({
+    id: cloud.nextId++,
+    entryId: source.entryId,
+    token: source.token,
+    color: source.color,
+
+    kind: "veil",
+    u,
+    biasY,
+
+    vx: local.x,
+    vy: local.y,
+    vx0: local.x,
+    vy0: local.y,
+
+    theta,
+    slot: 0,
+    rank: -1,
+    seq: 0,
+    arc: 0,
+    span: source.span,
+    unit: source.unit,
+    copy,
+    groupIndex: source.groupIndex,
+    groupSize: source.groupSize,
+    groupArc: source.groupArc,
+    groupSlot: 0,
+    radiusOffset: 0,
+    omegaOffset: 0,
+    spin: 0,
+    dragX: 0,
+    dragY: 0,
+    bornAt: now,
+    age: 0,
+    evictedAt: null,
+    pinned: null,
+  });
+}
+
+// 手离头越近，目标覆盖率越低（0 = 手在很远，1 = 手已经在脸上）
+function revealCloseness(pose: HeadPose, brushes: Brush[], veil: VeilSettings, headR: number) {
+  if (!veil.reveal) return 0;
+  let close = 0;
+  for (const b of brushes) {
+    const d = Math.hypot(b.x - pose.x, b.y - pose.y) - headR;
+    close = Math.max(close, 1 - d / Math.max(1, veil.revealRadius));
+  }
+  return Math.max(0, Math.min(1, close));
+}
+
+// 手附近的 veil 字直接淡掉（露出一个洞）
+function revealAlpha(pos: Point, brushes: Brush[], veil: VeilSettings) {
+  let a = 1;
+  for (const b of brushes) {
+    const t = Math.min(1, Math.hypot(pos.x - b.x, pos.y - b.y) / Math.max(1, veil.revealRadius * 0.5));
+    a = Math.min(a, t * t * (3 - 2 * t));
+  }
+  return a;
+}
+
+// 每帧：按面积算还差多少（或多了多少），补最少副本的单位（新字优先）、撤最多副本的单位（旧字优先）。
+// 新副本放在遮罩里离已有的字最远的候选点上（Mitchell best-candidate，近似 Poisson-disk）
+function maintainVeil(
+  cloud: ParticleCloud,
+  pose: HeadPose,
+  veilOut: Point[],
+  brushes: Brush[],
+  settings: SimSettings,
+  now: number,
+  random: () => number
+) {
+  const em = Math.max(1, settings.fontSize);
+  const units = veilUnits(cloud, em);
+  const shape = maskShape(pose);
+  const { veilRx, veilRy } = veilRadii(pose);
+  const closeness = revealCloseness(pose, brushes, settings.veil, Math.max(veilRx, veilRy));
+  const target = settings.veil.coverage * (1 - closeness) * shape.area;
+
+  let covered = 0;
+  let live = 0;
+  for (const unit of units.values()) {
+    covered += unit.copies.size * unit.area;
+    for (const copy of unit.copies.values()) live += copy.length;
+  }
+  const liveOrbits = cloud.orbitParticles.filter(isAlive).length;
+  let budget = ORBIT.maxParticles - liveOrbits - live;
+
+  let grid: ReturnType<typeof createPointGrid> | null = null;
+
+  for (let n = 0; n < VEIL_CHANGES_PER_FRAME; n++) {
+    let fewest: VeilUnit | null = null;
+    let most: VeilUnit | null = null;
+    for (const unit of units.values()) {
+      if (unit.copies.size < ORBIT.veilMaxCopies && (!fewest || unit.copies.size <= fewest.copies.size)) fewest = unit;
+      if (unit.copies.size > 0 && (!most || unit.copies.size > most.copies.size)) most = unit;
+    }
+
+    if (fewest && covered + fewest.area / 2 < target && budget >= fewest.tokens.length) {
+      if (!grid) {
+        grid = createPointGrid(em * 1.5);
+        for (const p of veilOut) grid.add(p);
+      }
+      let best: Point | null = null;
+      let bestDist = -1;
+      for (let i = 0; i < VEIL_CANDIDATES; i++) {
+        const c = randomInside(shape, random);
+        if (!c) continue;
+        const d = grid.nearest(c.x, c.y);
+        if (d > bestDist) {
+          best = c;
+          bestDist = d;
+        }
+      }
+      if (!best) break;
+      grid.add(best);
+
+      const theta = random() * Math.PI * 2;
+      const biasY = ORBIT.veilBiasMin + random() * ORBIT.veilBiasRange;
+      const local = veilLocalAt(best, theta, biasY, pose, veilRx, veilRy);
+      const copy = cloud.nextCopy++;
+      const start = cloud.veilParticles.length;
+      for (const t of fewest.tokens) pushVeil(cloud, t, now, local, theta, biasY, copy);
+      fewest.copies.set(copy, cloud.veilParticles.slice(start));
+      covered += fewest.area;
+      budget -= fewest.tokens.length;
+      continue;
+    }
+
+    // 多了就撤；没多但分得不匀（新来的字还没有副本）也从副本最多的撤一个，下一轮补给新字
+    const uneven = fewest && most && most.copies.size > fewest.copies.size + 1;
+    if (most && (covered - most.area / 2 > target || uneven)) {
+      const [oldest, copy] = most.copies.entries().next().value!;
+      for (const p of copy) evict(p);
+      most.copies.delete(oldest);
+      covered -= most.area;
+      continue;
+    }
+    break;
+  }
+}
+
+// 一帧：先按当前状态摆位置（这就是画出来的位置），再施加笔刷、推进角度和衰减，最后补 / 撤 veil 副本
+export function stepSimulation(
+  cloud: ParticleCloud,
+  pose: HeadPose,
+  brushes: Brush[],
+  dt: number,
+  settings: SimSettings,
+  now: number,
+  random: () => number = Math.random
+): SimParticle[] {
+  const life = settings.lifetime;
+  sweepGone(cloud.orbitParticles, life);
+  sweepGone(cloud.veilParticles, life);
+
+  advanceLayout(cloud, dt, settings);
+
+  const { veilRx, veilRy } = veilRadii(pose);
+  const frames = layoutFrames(pose, settings.ring);
+  const out: SimParticle[] = [];
+
+  for (const p of [...cloud.orbitParticles, ...cloud.veilParticles]) {
+    let pos: Point;
+    let depth: number;
+    let layoutAlpha = 1;
+    if (p.kind === "orbit") {
+      const home = placeOrbit(p, pose, cloud.layout, frames, settings.fontSize, settings.drive.radius);
+      if (p.pinned) {
+        p.dragX = p.pinned.x - home.x;
+        p.dragY = p.pinned.y - home.y;
+      }
+      pos = { x: home.x + p.dragX, y: home.y + p.dragY };
+      depth = home.depth;
+      layoutAlpha = home.alpha;
+    } else {
+      pos = { ...placeVeil(p, pose, veilRx, veilRy, settings.fontSize) };
+      depth = Math.sin(p.theta);
+      if (settings.veil.reveal) layoutAlpha = revealAlpha(pos, brushes, settings.veil);
+    }
+    // 抓在手里的字总在最前；orbit 的前后来自真实的 3D 深度
+    if (p.pinned) depth = 1;
+    const look = appearance(p, depth);
+    const lf = lifeFactors(p.age, p.evictedAt, life);
+
+    // 消散时从头部中心往外、稍微往上飘走
+    if (lf.dissolve > 0) {
+      const dx = pos.x - pose.x;
+      const dy = pos.y - pose.y;
+      const len = Math.hypot(dx, dy) + 1e-6;
+      const drift = 70 * lf.dissolve * lf.dissolve;
+      pos.x += (dx / len) * drift;
+      pos.y += (dy / len) * drift - drift * 0.4;
+    }
+
+    const layer: SimLayer =
+      p.kind === "veil" ? "veil" : depth < 0 ? "orbitBack" : "orbitFront";
+
+    out.push({
+      p,
+      x: pos.x,
+      y: pos.y,
+      depth,
+      alpha: look.alpha * lf.alpha * layoutAlpha,
+      scale: look.scale * lf.scale * settings.drive.pulse,
+      layer,
+    });
+  }
+
+  for (const brush of brushes) {
+    for (const d of out) {
+      if (!d.p.pinned) applyBrush(d.p, d, brush, dt, veilRx, veilRy);
+    }
+  }
+
+  linkNeighbours(cloud.orbitParticles, ORBIT_LINKED, dt);
+  linkNeighbours(cloud.veilParticles, VEIL_LINKED, dt);
+
+  for (const d of out) advanceParticle(d.p, dt, settings);
+
+  const veilOut = out.filter((d) => d.layer === "veil" && isAlive(d.p));
+  maintainVeil(cloud, pose, veilOut, brushes, settings, now, random);
+
+  return out;
+}
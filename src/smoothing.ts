@@ -0,0 +1,99 @@
+// --- One-Euro filter (Casiez et al. 2012) + tracking tuning ---
+//
+// 慢的时候 cutoff 低（去抖），快的时候 cutoff 随速度升高（不拖尾）。
+// settings 按引用读取，面板里改了立刻生效。
+
+export type OneEuroSettings = {
+  minCutoff: number; // Hz：静止时的截止频率，越小越稳
+  beta: number;      // 速度系数：越大快速移动时越跟手
+  dCutoff: number;   // 速度估计本身的截止频率
+};
+
+export type TrackingTuning = {
+  head: OneEuroSettings;   // 头部锚点（屏幕 px）
+  size: OneEuroSettings;   // 脸宽 / 脸高
+  angles: OneEuroSettings; // 头的 yaw / pitch / roll（rad）
+  finger: OneEuroSettings; // 指尖笔刷
+  graceSec: number;        // 脸丢了以后原地保持多久
+  fadeSec: number;         // 保持之后淡出多久（淡完就移除这个人）
+  relockSec: number;       // 重新找到脸时淡入多久
+};
+
+export const DEFAULT_TRACKING_TUNING: TrackingTuning = {
+  head: { minCutoff: 1.2, beta: 0.02, dCutoff: 1 },
+  size: { minCutoff: 0.6, beta: 0.005, dCutoff: 1 },
+  angles: { minCutoff: 1, beta: 0.3, dCutoff: 1 },
+  finger: { minCutoff: 2, beta: 0.04, dCutoff: 1 },
+  graceSec: 0.8,
+  fadeSec: 1.5,
+  relockSec: 0.4,
+};
+
+function smoothingFactor(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+export function createOneEuro(settings: OneEuroSettings) {
+  let value: number | null = null;
+  let speed = 0;
+  let lastT = 0;
+
+  return {
+    // t: ms（performance.now）
+    filter(raw: number, t: number) {
+      if (value === null) {
+        value = raw;
+        speed = 0;
+        lastT = t;
+        return raw;
+      }
+
+      const dt = Math.max(0.001, (t - lastT) / 1000);
+      lastT = t;
+
+      speed += smoothingFactor(settings.dCutoff, dt) * ((raw - value) / dt - speed);
+      const cutoff = settings.minCutoff + settings.beta * Math.abs(speed);
+      value += smoothingFactor(cutoff, dt) * (raw - value);
+      return value;
+    },
+
+    // 下一次 filter 直接跳到新值
+    reset() {
+      value = null;
+    },
+  };
+}
+
+export type OneEuro = ReturnType<typeof createOneEuro>;
+
+export function createOneEuro2D(settings: OneEuroSettings) {
+  const fx = createOneEuro(settings);
+  const fy = createOneEuro(settings);
+  return {
+    filter: (p: { x: number; y: number }, t: number) => ({ x: fx.filter(p.x, t), y: fy.filter(p.y, t) }),
+    reset() {
+      fx.reset();
+      fy.reset();
+    },
+  };
+}
+
+// 角度：输入先展开到离上一次输出最近的那一圈（跨过 ±π 不会跳一整圈），输出不再归一化
+export function createOneEuroAngle(settings: OneEuroSettings) {
+  const f = createOneEuro(settings);
+  let last: number | null = null;
+  return {
+    filter(raw: number, t: number) {
+      const near = last === null ? raw : last + Math.atan2(Math.sin(raw - last), Math.cos(raw - last));
+      last = f.filter(near, t);
+      return last;
+    },
+    reset() {
+      f.reset();
+      last = null;
+    },
+  };
+}
+
+export type OneEuroAngle = ReturnType<typeof createOneEuroAngle>;
@@ -0,0 +1,166 @@
+// --- Speech-to-text: spoken thoughts instead of typed ones ---
+//
+// main 只认 SpeechEngine 这个接口：现在用浏览器的 Web Speech API，
+// 以后换成本地离线引擎（例如 WASM 版 Whisper）只要再实现一个 factory 放进 SPEECH_ENGINES。
+
+export type SpeechState = "idle" | "listening" | "error";
+
+export type SpeechHandlers = {
+  onResult: (text: string, final: boolean) => void; // interim 会被下一条覆盖，final 才提交
+  onState: (state: SpeechState, detail?: string) => void;
+};
+
+export type SpeechEngine = {
+  kind: SpeechEngineKind;
+  start: (lang: string, continuous: boolean) => void;
+  stop: () => void; // 停止收音；已经说完的部分仍然会作为 final 回调
+  listening: () => boolean;
+};
+
+// 不支持时返回 null（和 createWebGLRenderer 一样）
+export type SpeechEngineFactory = (handlers: SpeechHandlers) => SpeechEngine | null;
+
+export type SpeechEngineKind = "webspeech";
+
+export type SpeechMode = "continuous" | "pushToTalk";
+
+export type SpeechSettings = {
+  enabled: boolean;
+  engine: SpeechEngineKind;
+  mode: SpeechMode;
+  lang: string;          // BCP 47；"auto" = 浏览器语言
+  pushToTalkKey: string; // KeyboardEvent.code
+};
+
+export const DEFAULT_SPEECH: SpeechSettings = {
+  enabled: false,
+  engine: "webspeech",
+  mode: "pushToTalk",
+  lang: "auto",
+  pushToTalkKey: "Space",
+};
+
+// tokenizeMixed 按英文整词 + 中日韩逐字切，这几种识别出来的文字都能直接用
+export const SPEECH_LANGUAGES: Record<string, string> = {
+  auto: "Browser language",
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "zh-CN": "中文（普通话）",
+  "zh-TW": "中文（台灣）",
+  "zh-HK": "粵語（香港）",
+  "ja-JP": "日本語",
+  "ko-KR": "한국어",
+};
+
+export function resolveSpeechLang(lang: string) {
+  return lang === "auto" ? navigator.language || "en-US" : lang;
+}
+
+// --- Web Speech API ---
+//
+// lib.dom 只带了结果类型，识别器本身没有类型（Chrome / Safari 还是 webkit 前缀）
+
+type WebSpeechRecognition = EventTarget & {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((e: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+};
+
+type WebSpeechConstructor = new () => WebSpeechRecognition;
+
+function webSpeechConstructor(): WebSpeechConstructor | null {
+  const w = window as unknown as Record<string, WebSpeechConstructor | undefined>;
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+export const createWebSpeechEngine: SpeechEngineFactory = (handlers) => {
+  const Recognition = webSpeechConstructor();
+  return Recognition ? buildWebSpeechEngine(Recognition, handlers) : null;
+};
+
+function buildWebSpeechEngine(Recognition: WebSpeechConstructor, handlers: SpeechHandlers): SpeechEngine {
+  let rec: WebSpeechRecognition | null = null;
+  let wanted = false;     // 用户还想听：识别器自己停了（静音 / 一句说完）就重启
+  let error: string | null = null;
+  let continuous = false;
+  let lang = "en-US";
+
+  function open() {
+    const r = new Recognition();
+    r.lang = lang;
+    r.continuous = continuous;
+    r.interimResults = true;
+
+    r.onresult = (e) => {
+      let interim = "";
+      for (let i = e.resultIndex; i < e.results.length; i++) {
+        const result = e.results[i];
+        const text = result[0]?.transcript ?? "";
+        if (result.isFinal) handlers.onResult(text, true);
+        else interim += text;
+      }
+      handlers.onResult(interim, false);
+    };
+
+    r.onerror = (e) => {
+      // no-speech / aborted 是正常情况（没说话、被我们 stop 掉）
+      if (e.error === "no-speech" || e.error === "aborted") return;
+      wanted = false;
+      error = e.error;
+    };
+
+    // Chrome 静音一会儿 / 非 continuous 说完一句就会自己结束：还在按着就接着听
+    r.onend = () => {
+      if (rec !== r) return;
+      rec = null;
+      if (wanted) {
+        open();
+        return;
+      }
+      handlers.onResult("", false);
+      handlers.onState(error ? "error" : "idle", error ?? undefined);
+    };
+
+    rec = r;
+    r.start();
+  }
+
+  return {
+    kind: "webspeech",
+    start(nextLang, nextContinuous) {
+      if (rec && (lang !== nextLang || continuous !== nextContinuous)) {
+        rec.onend = null;
+        rec.abort();
+        rec = null;
+      }
+      lang = nextLang;
+      continuous = nextContinuous;
+      wanted = true;
+      error = null;
+      handlers.onState("listening");
+      // 上一次 stop 还没结束（final 结果还在路上）：等它 onend 时自动重开
+      if (rec) return;
+      try {
+        open();
+      } catch (err) {
+        wanted = false;
+        handlers.onState("error", String(err));
+      }
+    },
+    stop() {
+      wanted = false;
+      rec?.stop();
+    },
+    listening: () => wanted,
+  };
+}
+
+export const SPEECH_ENGINES: Record<SpeechEngineKind, SpeechEngineFactory> = {
+  webspeech: createWebSpeechEngine,
+};
@@ -0,0 +1,77 @@
+import "./submit.css";
+
+// --- Phone submit page: POSTs to the relay (server/relay.mjs) ---
+
+const SENDER_KEY = "head-orbit.sender";
+const MAX_TEXT = 140;
+
+const form = document.querySelector<HTMLFormElement>("#submitForm")!;
+const textInput = document.querySelector<HTMLTextAreaElement>("#submitText")!;
+const sendBtn = document.querySelector<HTMLButtonElement>("#submitSend")!;
+const count = document.querySelector<HTMLSpanElement>("#submitCount")!;
+const status = document.querySelector<HTMLDivElement>("#submitStatus")!;
+
+// 每台手机一个随机 id（限流按它 + IP 算），存不了就每次重新生成
+function senderId() {
+  try {
+    let id = localStorage.getItem(SENDER_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(SENDER_KEY, id);
+    }
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+function showStatus(text: string, isError = false) {
+  status.textContent = text;
+  status.classList.toggle("submit__status--error", isError);
+}
+
+function updateCount() {
+  count.textContent = `${textInput.value.length} / ${MAX_TEXT}`;
+}
+
+textInput.addEventListener("input", updateCount);
+
+// Enter 直接发送，Shift+Enter 换行
+textInput.addEventListener("keydown", (e) => {
+  if (e.key !== "Enter" || e.shiftKey || e.isComposing) return;
+  e.preventDefault();
+  form.requestSubmit();
+});
+
+form.addEventListener("submit", async (e) => {
+  e.preventDefault();
+  const text = textInput.value.trim();
+  if (!text) return;
+
+  sendBtn.disabled = true;
+  showStatus("Sending…");
+  try {
+    const res = await fetch("/api/submit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, sender: senderId() }),
+    });
+    const body = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      const wait = body.retryAfterMs ? ` (try again in ${Math.ceil(body.retryAfterMs / 1000)}s)` : "";
+      showStatus(`${body.error ?? `HTTP ${res.status}`}${wait}`, true);
+      return;
+    }
+
+    textInput.value = "";
+    updateCount();
+    showStatus(body.status === "pending" ? "Sent! It will appear once approved." : "Sent! Look at the screen ✨");
+  } catch {
+    showStatus("Could not reach the display. Check the wifi and try again.", true);
+  } finally {
+    sendBtn.disabled = false;
+  }
+});
+
+updateCount();
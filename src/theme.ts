@@ -0,0 +1,235 @@
+import type { Particle, SimLayer } from "./simulation";
+
+// --- Themes: font, fill colouring, outline / glow and per-layer look ---
+//
+// 两个渲染器都从这里取样式：Canvas 2D 直接 strokeText / shadowBlur，
+// WebGL 把描边、发光分别光栅化进 atlas 的 G / B 通道，在 shader 里上色。
+
+export type LayerStyle = {
+  scale: number;      // 乘在 simulation 算出来的大小上
+  opacity: number;    // 乘在 alpha 上
+  stroke: number;     // 描边宽度（× 字号，0 = 没有）
+  strokeColor: string;
+  glow: number;       // 发光半径（× 字号，0 = 没有）
+  glowColor: string;  // "" = 和字同色
+};
+
+//   entry    每条文字一个颜色（面板里的 Global / Random）
+//   palette  按条轮流用调色板里的颜色
+//   gradient 按在圆环上的位置在调色板之间渐变（跟着转）
+export type ThemeFill = "entry" | "palette" | "gradient";
+
+export type Theme = {
+  name: string;
+  fontFamily: string; // CSS font-family 列表
+  fontWeight: number; // 100..900
+  fill: ThemeFill;
+  palette: string[];
+  layers: Record<SimLayer, LayerStyle>;
+};
+
+// 本地打包的字体（npm run fetch-fonts 下载到 public/fonts）；没下载时退回 system-ui
+export const BUNDLED_FONTS: Record<string, string> = {
+  Caveat: "Caveat.ttf",
+  Orbitron: "Orbitron.ttf",
+  "Press Start 2P": "PressStart2P.ttf",
+  "ZCOOL KuaiLe": "ZCOOLKuaiLe.ttf",
+};
+
+export const THEME_FONTS: Record<string, string> = {
+  "system-ui": "System",
+  "Georgia, 'Songti SC', serif": "Serif",
+  "ui-monospace, Menlo, monospace": "Monospace",
+  "'Caveat', system-ui": "Caveat (handwritten)",
+  "'Orbitron', system-ui": "Orbitron",
+  "'Press Start 2P', system-ui": "Press Start 2P (pixel)",
+  "'ZCOOL KuaiLe', system-ui": "站酷快乐体",
+};
+
+const plain = (opacity = 1): LayerStyle => ({
+  scale: 1,
+  opacity,
+  stroke: 0,
+  strokeColor: "#000000",
+  glow: 0,
+  glowColor: "",
+});
+
+export const THEME_PRESETS: Record<string, Theme> = {
+  classic: {
+    name: "Classic",
+    fontFamily: "system-ui",
+    fontWeight: 400,
+    fill: "entry",
+    palette: [],
+    layers: { orbitFront: plain(), orbitBack: plain(), veil: plain() },
+  },
+  neon: {
+    name: "Neon",
+    fontFamily: "'Orbitron', system-ui",
+    fontWeight: 600,
+    fill: "gradient",
+    palette: ["#22d3ee", "#a855f7", "#f472b6"],
+    layers: {
+      orbitFront: { ...plain(), glow: 0.45 },
+      orbitBack: { ...plain(0.7), glow: 0.3 },
+      veil: { ...plain(0.8), glow: 0.25 },
+    },
+  },
+  ink: {
+    name: "Ink outline",
+    fontFamily: "Georgia, 'Songti SC', serif",
+    fontWeight: 700,
+    fill: "entry",
+    palette: [],
+    layers: {
+      orbitFront: { ...plain(), stroke: 0.08, strokeColor: "#111111" },
+      orbitBack: { ...plain(0.8), scale: 0.9, stroke: 0.06, strokeColor: "#111111" },
+      veil: { ...plain(0.9), stroke: 0.05, strokeColor: "#111111" },
+    },
+  },
+  handwritten: {
+    name: "Handwritten",
+    fontFamily: "'Caveat', system-ui",
+    fontWeight: 500,
+    fill: "palette",
+    palette: ["#fde68a", "#fca5a5", "#a7f3d0", "#bfdbfe", "#ddd6fe"],
+    layers: {
+      orbitFront: { ...plain(), scale: 1.2 },
+      orbitBack: { ...plain(0.8), scale: 1.1 },
+      veil: { ...plain(), scale: 1.15 },
+    },
+  },
+  arcade: {
+    name: "Arcade",
+    fontFamily: "'Press Start 2P', system-ui",
+    fontWeight: 400,
+    fill: "palette",
+    palette: ["#facc15", "#4ade80", "#38bdf8", "#f87171"],
+    layers: {
+      orbitFront: { ...plain(), scale: 0.7, stroke: 0.12, strokeColor: "#1e1b4b" },
+      orbitBack: { ...plain(0.6), scale: 0.6 },
+      veil: { ...plain(0.85), scale: 0.65, glow: 0.2, glowColor: "#000000" },
+    },
+  },
+  kuaile: {
+    name: "快乐",
+    fontFamily: "'ZCOOL KuaiLe', system-ui",
+    fontWeight: 400,
+    fill: "gradient",
+    palette: ["#fb7185", "#fbbf24", "#34d399"],
+    layers: {
+      orbitFront: { ...plain(), scale: 1.1, stroke: 0.06, strokeColor: "#ffffff" },
+      orbitBack: { ...plain(0.75) },
+      veil: { ...plain(0.9), glow: 0.3 },
+    },
+  },
+};
+
+export const DEFAULT_THEME: Theme = THEME_PRESETS.classic;
+
+export const THEME_LAYERS: Record<SimLayer, string> = {
+  orbitFront: "Orbit (front)",
+  orbitBack: "Orbit (behind head)",
+  veil: "Veil",
+};
+
+// --- Fonts ---
+
+const requestedFonts = new Set<string>();
+
+// 按需注册主题里用到的本地字体；加载完成后 document.fonts 会触发 loadingdone（WebGL atlas 靠它重画）
+export function loadThemeFonts(theme: Theme, baseUrl = "/fonts") {
+  for (const [family, file] of Object.entries(BUNDLED_FONTS)) {
+    if (!theme.fontFamily.includes(family) || requestedFonts.has(family)) continue;
+    requestedFonts.add(family);
+    const face = new FontFace(family, `url(${baseUrl}/${file})`);
+    document.fonts.add(face);
+    face.load().catch(() => console.warn(`Font ${family} not found in ${baseUrl} (run "npm run fetch-fonts")`));
+  }
+}
+
+export function themeFont(theme: Theme, px: number) {
+  return `${theme.fontWeight} ${px}px ${theme.fontFamily}`;
+}
+
+// --- Colour ---
+
+const colorProbe = document.createElement("canvas").getContext("2d")!;
+const rgbCache = new Map<string, [number, number, number]>();
+
+function rgbOf(css: string): [number, number, number] {
+  let c = rgbCache.get(css);
+  if (!c) {
+    colorProbe.fillStyle = "#000000";
+    colorProbe.fillStyle = css;
+    const n = parseInt(String(colorProbe.fillStyle).slice(1), 16) || 0;
+    c = [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+    rgbCache.set(css, c);
+  }
+  return c;
+}
+
+// 调色板当成一圈首尾相接的渐变，t ∈ [0, 1)
+function samplePalette(palette: string[], t: number) {
+  const n = palette.length;
+  const x = (((t % 1) + 1) % 1) * n;
+  const i = Math.floor(x);
+  const f = x - i;
+  const a = rgbOf(palette[i % n]);
+  const b = rgbOf(palette[(i + 1) % n]);
+  const mix = (k: number) => Math.round(a[k] + (b[k] - a[k]) * f);
+  return `rgb(${mix(0)}, ${mix(1)}, ${mix(2)})`;
+}
+
+// entryColor: entry 模式下（或单独改过颜色的 entry）用的颜色
+export function themeColor(theme: Theme, p: Particle, entryColor: string) {
+  const { palette } = theme;
+  if (theme.fill === "entry" || !palette.length) return entryColor;
+  if (theme.fill === "palette") return palette[p.entryId % palette.length];
+
+  // orbit 按角度，veil 按离中心的距离
+  const t = p.kind === "orbit" ? p.theta / (Math.PI * 2) : p.u * 0.5;
+  // 渐变是逐帧连续变化的，量化一下，避免 WebGL 颜色缓存 / Canvas 解析无限增长
+  return samplePalette(palette, Math.round(t * 64) / 64);
+}
+
+// --- JSON import / export ---
+
+const THEME_FILLS: ThemeFill[] = ["entry", "palette", "gradient"];
+
+function parseLayer(json: unknown, fallback: LayerStyle): LayerStyle {
+  const l = (json && typeof json === "object" ? json : {}) as Partial<Record<keyof LayerStyle, unknown>>;
+  const num = (v: unknown, d: number) => (typeof v === "number" && Number.isFinite(v) ? v : d);
+  const str = (v: unknown, d: string) => (typeof v === "string" ? v : d);
+  return {
+    scale: num(l.scale, fallback.scale),
+    opacity: num(l.opacity, fallback.opacity),
+    stroke: num(l.stroke, fallback.stroke),
+    strokeColor: str(l.strokeColor, fallback.strokeColor),
+    glow: num(l.glow, fallback.glow),
+    glowColor: str(l.glowColor, fallback.glowColor),
+  };
+}
+
+// 缺的字段用 classic 补上；根本不像主题的直接报错
+export function parseTheme(json: unknown): Theme {
+  const t = json as Partial<Record<keyof Theme, unknown>>;
+  if (!t || typeof t !== "object" || typeof t.fontFamily !== "string" || !t.layers) {
+    throw new Error("Not a theme file");
+  }
+  const base = DEFAULT_THEME;
+  const layers = t.layers as Partial<Record<SimLayer, unknown>>;
+  return {
+    name: typeof t.name === "string" ? t.name : "Imported",
+    fontFamily: t.fontFamily,
+    fontWeight: typeof t.fontWeight === "number" ? t.fontWeight : base.fontWeight,
+    fill: THEME_FILLS.includes(t.fill as ThemeFill) ? (t.fill as ThemeFill) : base.fill,
+    palette: Array.isArray(t.palette) ? t.palette.filter((c): c is string => typeof c === "string") : [],
+    layers: {
+      orbitFront: parseLayer(layers.orbitFront, base.layers.orbitFront),
+      orbitBack: parseLayer(layers.orbitBack, base.layers.orbitBack),
+      veil: parseLayer(layers.veil, base.layers.veil),
+    },
+  };
+}
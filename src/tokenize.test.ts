@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { tokenize, tokenizeMixed, type TokenMode } from "./tokenize";
+
+// 显式 locale："auto" 会跟着跑测试的机器的语言走
+const run = (mode: TokenMode, text: string, locale = "en", phraseSize = 2) =>
+  tokenize(text, { mode, locale, phraseSize });
+
+const FAMILY = "👨‍👩‍👧"; // ZWJ 序列
+const CAFE_NFD = "cafe\u0301"; // e + 组合重音
+
+describe("sentence", () => {
+  it.each([
+    ["Latin", "Hello there. How are you?", "en", ["Hello there.", "How are you?"]],
+    ["exclamation and question marks", "Wait! Really? Yes.", "en", ["Wait!", "Really?", "Yes."]],
+    ["Cyrillic", "Привет, мир! Как дела?", "ru", ["Привет, мир!", "Как дела?"]],
+    ["CJK full stops without spaces", "你好。今天天气很好！明天呢？", "zh", ["你好。", "今天天气很好！", "明天呢？"]],
+    ["Japanese", "今日は晴れ。散歩しよう。", "ja", ["今日は晴れ。", "散歩しよう。"]],
+    ["no punctuation stays one sentence", "just one thought", "en", ["just one thought"]],
+  ])("%s", (_, text, locale, expected) => {
+    expect(run("sentence", text, locale)).toEqual(expected);
+  });
+});
+
+describe("words", () => {
+  it.each([
+    ["accented Latin", "café au lait", "en", ["café", "au", "lait"]],
+    ["combining marks", `${CAFE_NFD} noir`, "en", [CAFE_NFD, "noir"]],
+    ["Cyrillic, punctuation kept on the word", "Привет, мир!", "ru", ["Привет,", "мир!"]],
+    ["Chinese without spaces", "我喜欢吃苹果", "zh", ["我", "喜欢", "吃", "苹果"]],
+    ["Japanese without spaces", "今日は良い天気です", "ja", ["今日", "は", "良い", "天気", "です"]],
+    ["emoji ZWJ sequence", `${FAMILY} family 👍🏽`, "en", [FAMILY, "family", "👍🏽"]],
+    ["apostrophes", "don't stop", "en", ["don't", "stop"]],
+  ])("%s", (_, text, locale, expected) => {
+    expect(run("words", text, locale)).toEqual(expected);
+  });
+});
+
+describe("phrase", () => {
+  it.each([
+    ["accented Latin", "café au lait", "en", ["café au", "lait"]],
+    ["breaks at punctuation first", "don't stop, believing. now", "en", ["don't stop,", "believing.", "now"]],
+    ["Cyrillic", "Привет, мир! Как дела?", "ru", ["Привет,", "мир!", "Как дела?"]],
+    ["Chinese keeps the original spacing", "我喜欢吃苹果", "zh", ["我喜欢", "吃苹果"]],
+    ["emoji ZWJ sequence", `${FAMILY} family 👍🏽`, "en", [`${FAMILY} family`, "👍🏽"]],
+  ])("%s", (_, text, locale, expected) => {
+    expect(run("phrase", text, locale)).toEqual(expected);
+  });
+
+  it("uses phraseSize", () => {
+    expect(run("phrase", "one two three four five", "en", 3)).toEqual(["one two three", "four five"]);
+  });
+});
+
+describe("characters", () => {
+  it.each([
+    ["accented Latin", "café", "en", ["c", "a", "f", "é"]],
+    ["combining marks stay on their letter", CAFE_NFD, "en", ["c", "a", "f", "e\u0301"]],
+    ["Cyrillic", "мир!", "ru", ["м", "и", "р", "!"]],
+    ["Chinese", "苹果", "zh", ["苹", "果"]],
+    ["emoji ZWJ sequence and flags", `${FAMILY} 🇯🇵 👍🏽`, "en", [FAMILY, "🇯🇵", "👍🏽"]],
+  ])("%s", (_, text, locale, expected) => {
+    expect(run("characters", text, locale)).toEqual(expected);
+  });
+});
+
+describe("letters", () => {
+  it.each([
+    ["accented Latin", "café!", "en", ["c", "a", "f", "é"]],
+    ["combining marks", CAFE_NFD, "en", ["c", "a", "f", "e\u0301"]],
+    ["Cyrillic drops punctuation", "Привет, мир!", "ru", ["П", "р", "и", "в", "е", "т", "м", "и", "р"]],
+    ["Chinese", "苹果。", "zh", ["苹", "果"]],
+    ["emoji are dropped", `ok ${FAMILY}!`, "en", ["o", "k"]],
+  ])("%s", (_, text, locale, expected) => {
+    expect(run("letters", text, locale)).toEqual(expected);
+  });
+});
+
+describe("mixed", () => {
+  // 以前的默认行为，不能变
+  it.each([
+    ["café au lait", ["c", "a", "f", "é", "au", "lait"]],
+    ["Привет, мир", ["П", "р", "и", "в", "е", "т", ",", "м", "и", "р"]],
+    ["我喜欢吃苹果", ["我", "喜", "欢", "吃", "苹", "果"]],
+    [`${FAMILY} family 👍🏽`, [FAMILY, "family", "👍🏽"]],
+    ["don't stop, believing.", ["don't", "stop", ",", "believing", "."]],
+  ])("%j", (text, expected) => {
+    expect(tokenizeMixed(text)).toEqual(expected);
+  });
+
+  it("ignores the locale", () => {
+    const text = "今日は café 👍🏽";
+    expect(run("mixed", text, "ja")).toEqual(tokenizeMixed(text));
+    expect(run("mixed", text, "ru")).toEqual(tokenizeMixed(text));
+  });
+});
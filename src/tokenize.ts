@@ -0,0 +1,163 @@
+// --- Text -> tokens (one token per particle) ---
+
+export type TokenMode = "mixed" | "sentence" | "phrase" | "words" | "characters" | "letters";
+
+export type TokenizeSettings = {
+  mode: TokenMode;
+  locale: string;     // 传给 Intl.Segmenter；"auto" = 浏览器语言
+  phraseSize: number; // phrase 模式：每块几个词
+};
+
+export const DEFAULT_TOKENIZE: TokenizeSettings = {
+  mode: "mixed",
+  locale: "auto",
+  phraseSize: 3,
+};
+
+// mixed = 以前的默认：简单英文词整词，其他按字
+export const TOKEN_MODE_LABELS: Record<TokenMode, string> = {
+  mixed: "Mixed",
+  sentence: "Sentences",
+  phrase: "Phrases",
+  words: "Words",
+  characters: "Characters",
+  letters: "Letters",
+};
+
+// 分词结果受 locale 影响（中文 / 日文 / 泰文靠词典切词）
+export const TOKEN_LOCALES: Record<string, string> = {
+  auto: "Browser language",
+  en: "English",
+  zh: "中文",
+  ja: "日本語",
+  ko: "한국어",
+  th: "ไทย",
+  de: "Deutsch",
+  fr: "Français",
+  es: "Español",
+  ru: "Русский",
+};
+
+type Granularity = "grapheme" | "word" | "sentence";
+
+// Segmenter 创建不便宜，按 locale + 粒度缓存
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function segmenter(locale: string, granularity: Granularity) {
+  const resolved = locale === "auto" ? navigator.language || "und" : locale;
+  const key = `${resolved}|${granularity}`;
+  let seg = segmenters.get(key);
+  if (!seg) {
+    seg = new Intl.Segmenter(resolved, { granularity });
+    segmenters.set(key, seg);
+  }
+  return seg;
+}
+
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+const LETTER = /[\p{L}\p{N}]/u;
+// 分句 / 分短语用的标点（中英文）
+const CLAUSE_BREAK = /^[,.;:!?，。；：！？、…]+$/u;
+
+// 原来的默认行为：简单英文词整词保留，其他（中文、emoji、重音字母等）一律按字
+export function tokenizeMixed(text: string) {
+  const wordSeg = segmenter("en", "word");
+  const graphemeSeg = segmenter("und", "grapheme");
+
+  const out: string[] = [];
+
+  for (const seg of wordSeg.segment(text)) {
+    const s = seg.segment;
+
+    // 过滤纯空白
+    if (!s.trim()) continue;
+
+    // 如果是“像单词”的英文片段：整词保留
+    const isSimpleEnglishWord =
+      seg.isWordLike &&
+      /^[A-Za-z0-9]+(?:['’][A-Za-z0-9]+)*$/.test(s);
+
+    if (isSimpleEnglishWord) {
+      out.push(s);
+      continue;
+    }
+
+    // 其他情况（中文、emoji、混合、标点等）用 grapheme 保持细粒度
+    for (const g of graphemeSeg.segment(s)) {
+      const t = g.segment;
+      if (t.trim()) out.push(t);
+    }
+  }
+
+  return out;
+}
+
+type Word = { text: string; start: number; end: number; breakAfter: boolean };
+
+// 按 locale 切词：所有文字的词都整词保留（café、привет、中文词），
+// 标点粘到前一个词上，emoji 单独一个
+function segmentWords(text: string, locale: string): Word[] {
+  const words: Word[] = [];
+  for (const seg of segmenter(locale, "word").segment(text)) {
+    const s = seg.segment;
+    if (!s.trim()) continue;
+    const start = seg.index;
+    const end = start + s.length;
+    const prev = words[words.length - 1];
+
+    if (seg.isWordLike || EMOJI.test(s) || !prev) {
+      words.push({ text: s, start, end, breakAfter: false });
+    } else {
+      prev.text = text.slice(prev.start, end).trim();
+      prev.end = end;
+      if (CLAUSE_BREAK.test(s.trim())) prev.breakAfter = true;
+    }
+  }
+  return words;
+}
+
+// 每 n 个词一块，遇到逗号 / 句号先断开；块的文字直接取原文（空格 / 中文不加空格都自然保留）
+function chunkPhrases(text: string, words: Word[], size: number) {
+  const out: string[] = [];
+  let first = 0;
+  for (let i = 0; i < words.length; i++) {
+    const full = i - first + 1 >= size;
+    if (full || words[i].breakAfter || i === words.length - 1) {
+      out.push(text.slice(words[first].start, words[i].end).trim());
+      first = i + 1;
+    }
+  }
+  return out;
+}
+
+function graphemes(text: string, locale: string) {
+  const out: string[] = [];
+  for (const g of segmenter(locale, "grapheme").segment(text)) {
+    if (g.segment.trim()) out.push(g.segment);
+  }
+  return out;
+}
+
+export function tokenize(text: string, settings: TokenizeSettings): string[] {
+  const { locale } = settings;
+  switch (settings.mode) {
+    case "mixed":
+      return tokenizeMixed(text);
+    case "sentence": {
+      const out: string[] = [];
+      for (const s of segmenter(locale, "sentence").segment(text)) {
+        const t = s.segment.trim();
+        if (t) out.push(t);
+      }
+      return out;
+    }
+    case "phrase":
+      return chunkPhrases(text, segmentWords(text, locale), Math.max(1, Math.round(settings.phraseSize)));
+    case "words":
+      return segmentWords(text, locale).map((w) => w.text);
+    case "characters":
+      return graphemes(text, locale);
+    case "letters":
+      return graphemes(text, locale).filter((g) => LETTER.test(g));
+  }
+}
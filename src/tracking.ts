@@ -0,0 +1,170 @@
+import type { FaceLandmarker, HandLandmarker } from "@mediapipe/tasks-vision";
+import { downloadBlob } from "./download";
+
+// --- Tracking sources: live MediaPipe, recorder, and JSON replay ---
+
+export type Landmark = { x: number; y: number; z: number };
+
+export type Handedness = "Left" | "Right";
+
+// 一帧的跟踪结果（全部是 0..1 的归一化视频坐标，和 MediaPipe 一致）
+export type TrackingFrame = {
+  faces: Landmark[][];
+  // 每张脸的 4x4 facial transformation matrix（列优先）；旧录像里没有，为空数组
+  faceMatrices: number[][];
+  hands: Landmark[][];
+  handedness: Handedness[];
+};
+
+export interface TrackingSource {
+  readonly kind: "mediapipe" | "replay";
+  // 是否已经可以出帧（摄像头就绪 / 录像已加载）
+  ready(): boolean;
+  // 源画面尺寸，用于 normalized -> screen 映射
+  frameSize(): { width: number; height: number };
+  detect(now: number): TrackingFrame;
+}
+
+export type RecordedFrame = TrackingFrame & { t: number }; // ms since start
+
+export type TrackingSession = {
+  version: 1;
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+};
+
+const EMPTY_FRAME: TrackingFrame = { faces: [], faceMatrices: [], hands: [], handedness: [] };
+
+export function createMediaPipeSource(
+  video: HTMLVideoElement,
+  faceLandmarker: FaceLandmarker,
+  handLandmarker: HandLandmarker
+): TrackingSource {
+  return {
+    kind: "mediapipe",
+    ready: () => video.readyState >= 2,
+    frameSize: () => ({ width: video.videoWidth, height: video.videoHeight }),
+    detect(now) {
+      const faceRes = faceLandmarker.detectForVideo(video, now);
+      const handRes = handLandmarker.detectForVideo(video, now);
+      return {
+        faces: faceRes.faceLandmarks ?? [],
+        faceMatrices: (faceRes.facialTransformationMatrixes ?? []).map((m) => m.data),
+        hands: handRes.landmarks ?? [],
+        // MediaPipe 假设输入是自拍镜像画面，而我们送进去的是原始摄像头画面，
+        // 所以标签要反过来才是这个人真正的左右手
+        handedness: (handRes.handedness ?? []).map(
+          (c) => (c[0]?.categoryName === "Left" ? "Right" : "Left") as Handedness
+        ),
+      };
+    },
+  };
+}
+
+// --- Recorder: wraps any source and captures its frames ---
+
+export type TrackingRecorder = TrackingSource & {
+  recording(): boolean;
+  start(): void;
+  stop(): TrackingSession;
+};
+
+const round4 = (v: number) => Math.round(v * 10000) / 10000;
+const packLandmarks = (list: Landmark[][]) =>
+  list.map((pts) => pts.map((p) => ({ x: round4(p.x), y: round4(p.y), z: round4(p.z) })));
+
+export function createRecorder(inner: TrackingSource): TrackingRecorder {
+  let frames: RecordedFrame[] | null = null;
+  let startedAt = 0;
+
+  return {
+    kind: inner.kind,
+    ready: () => inner.ready(),
+    frameSize: () => inner.frameSize(),
+    detect(now) {
+      const frame = inner.detect(now);
+      if (frames) {
+        if (!frames.length) startedAt = now;
+        frames.push({
+          t: Math.round(now - startedAt),
+          faces: packLandmarks(frame.faces),
+          faceMatrices: frame.faceMatrices.map((m) => m.map(round4)),
+          hands: packLandmarks(frame.hands),
+          handedness: frame.handedness.slice(),
+        });
+      }
+      return frame;
+    },
+    recording: () => frames !== null,
+    start() {
+      frames = [];
+    },
+    stop() {
+      const { width, height } = inner.frameSize();
+      const session: TrackingSession = { version: 1, width, height, frames: frames ?? [] };
+      frames = null;
+      return session;
+    },
+  };
+}
+
+export function downloadSession(session: TrackingSession, filename = "tracking-session.json") {
+  downloadBlob(new Blob([JSON.stringify(session)], { type: "application/json" }), filename);
+}
+
+// --- Replay: plays a recorded session back at its original timing ---
+
+export function parseSession(json: unknown): TrackingSession {
+  const s = json as Partial<TrackingSession>;
+  if (!s || s.version !== 1 || !Array.isArray(s.frames)) {
+    throw new Error("Not a tracking session file");
+  }
+  return {
+    version: 1,
+    width: s.width || 1280,
+    height: s.height || 720,
+    frames: s.frames.map((f) => ({
+      t: f.t,
+      faces: f.faces ?? [],
+      faceMatrices: f.faceMatrices ?? [],
+      hands: f.hands ?? [],
+      handedness: f.handedness ?? [],
+    })),
+  };
+}
+
+export async function fetchSession(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return parseSession(await res.json());
+}
+
+export function createReplaySource(session: TrackingSession, loop = true): TrackingSource {
+  const { frames } = session;
+  const duration = frames.length ? frames[frames.length - 1].t : 0;
+  let startedAt: number | null = null;
+  let index = 0;
+
+  return {
+    kind: "replay",
+    ready: () => true,
+    frameSize: () => ({ width: session.width, height: session.height }),
+    detect(now) {
+      if (!frames.length) return EMPTY_FRAME;
+      if (startedAt === null) startedAt = now;
+
+      let elapsed = now - startedAt;
+      if (elapsed > duration) {
+        if (!loop) return EMPTY_FRAME;
+        startedAt = now - (duration > 0 ? elapsed % duration : 0);
+        elapsed = now - startedAt;
+        index = 0;
+      }
+
+      // 往前走到最后一个 t <= elapsed 的帧（帧是按时间排好的）
+      while (index + 1 < frames.length && frames[index + 1].t <= elapsed) index++;
+      return frames[index];
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ORBIT, ORBIT_DEFAULTS } from "./simulation";
+import { TUNING_SPECS, applyPhysics, defaultPhysics, parsePhysicsPresets } from "./tuning";
+
+afterEach(() => {
+  Object.assign(ORBIT, ORBIT_DEFAULTS);
+});
+
+describe("physics presets", () => {
+  it("defaults sit inside every slider range", () => {
+    const values = defaultPhysics();
+    for (const { key, min, max } of TUNING_SPECS) {
+      expect(values[key], key).toBeGreaterThanOrEqual(min);
+      expect(values[key], key).toBeLessThanOrEqual(max);
+    }
+  });
+
+  it("clamps imported values to the slider range and rounds integer ones", () => {
+    const [preset] = parsePhysicsPresets({
+      name: "Broken",
+      values: { maxLanes: 0, laneCapacity: 1e6, laneGap: 12.6, orbitOmega: -2, veilDriftAmp: "x" },
+    });
+    expect(preset.values).toEqual({ maxLanes: 1, laneCapacity: 48, laneGap: 13, orbitOmega: 0 });
+  });
+
+  it("clamps stored values when applying them", () => {
+    applyPhysics({ maxLanes: 0, laneCapacity: 2.4, swirlStrength: 99 });
+    expect(ORBIT.maxLanes).toBe(1);
+    expect(ORBIT.laneCapacity).toBe(4);
+    expect(ORBIT.swirlStrength).toBe(10);
+    expect(ORBIT.laneGap).toBe(ORBIT_DEFAULTS.laneGap);
+  });
+});
@@ -0,0 +1,133 @@
+import { ORBIT, ORBIT_DEFAULTS, type OrbitTuning } from "./simulation";
+
+// --- Physics tuning: the ORBIT constants as live sliders + named presets ---
+//
+// maxParticles / veilMaxCopies 不在这里：它们是渲染器的预算（main 里的 RENDER_BUDGETS）。
+
+export type TuningGroup = "orbit" | "veil" | "brush";
+
+export type TunableKey = Exclude<keyof OrbitTuning, "maxParticles" | "veilMaxCopies">;
+
+export type Physics = Record<TunableKey, number>;
+
+export type TuningSpec = {
+  key: TunableKey;
+  label: string;
+  group: TuningGroup;
+  min: number;
+  max: number;
+  step: number;
+  digits: number;
+};
+
+export const TUNING_GROUPS: Record<TuningGroup, string> = {
+  orbit: "Orbit",
+  veil: "Veil",
+  brush: "Brush",
+};
+
+export const TUNING_SPECS: TuningSpec[] = [
+  { key: "maxLanes", label: "Lanes", group: "orbit", min: 1, max: 24, step: 1, digits: 0 },
+  { key: "laneCapacity", label: "Tokens per lane", group: "orbit", min: 4, max: 48, step: 1, digits: 0 },
+  { key: "laneGap", label: "Lane gap (px)", group: "orbit", min: 4, max: 80, step: 1, digits: 0 },
+  { key: "baseRScale", label: "Inner radius (× face)", group: "orbit", min: 0.3, max: 2, step: 0.01, digits: 2 },
+  { key: "laneJitter", label: "Start jitter (rad)", group: "orbit", min: 0, max: 0.5, step: 0.01, digits: 2 },
+  { key: "orbitOmega", label: "Spin (rad/s)", group: "orbit", min: 0, max: 3, step: 0.05, digits: 2 },
+  { key: "headRxScale", label: "Head width (× face)", group: "orbit", min: 0.3, max: 1.2, step: 0.01, digits: 2 },
+  { key: "headRyScale", label: "Head height (× face)", group: "orbit", min: 0.3, max: 1.2, step: 0.01, digits: 2 },
+  { key: "sphereRScale", label: "Sphere radius (× inner)", group: "orbit", min: 0.5, max: 2, step: 0.05, digits: 2 },
+  { key: "crownRScale", label: "Crown radius (× face)", group: "orbit", min: 0.2, max: 1.2, step: 0.05, digits: 2 },
+  { key: "crownLift", label: "Crown height (× face)", group: "orbit", min: 0.2, max: 1.5, step: 0.05, digits: 2 },
+  { key: "crownTilt", label: "Crown tilt (°)", group: "orbit", min: 0, max: 60, step: 1, digits: 0 },
+
+  { key: "veilOmega", label: "Spin (rad/s)", group: "veil", min: 0, max: 2, step: 0.05, digits: 2 },
+  { key: "veilDriftAmp", label: "Drift amount", group: "veil", min: 0, max: 0.3, step: 0.005, digits: 3 },
+  { key: "veilDriftFreq", label: "Drift frequency", group: "veil", min: 0, max: 4, step: 0.05, digits: 2 },
+  { key: "veilReturnTau", label: "Return time (s)", group: "veil", min: 0.1, max: 8, step: 0.1, digits: 1 },
+  { key: "veilBiasMin", label: "Vertical bias min", group: "veil", min: -1.5, max: 0.5, step: 0.05, digits: 2 },
+  { key: "veilBiasRange", label: "Vertical bias range", group: "veil", min: 0, max: 1.5, step: 0.05, digits: 2 },
+  { key: "veilBiasLift", label: "Bias strength", group: "veil", min: 0, max: 0.5, step: 0.01, digits: 2 },
+  { key: "veilPadX", label: "Width pad (no outline)", group: "veil", min: 0.8, max: 1.6, step: 0.01, digits: 2 },
+  { key: "veilPadY", label: "Height pad (no outline)", group: "veil", min: 0.8, max: 1.6, step: 0.01, digits: 2 },
+
+  { key: "influenceRadius", label: "Radius (px)", group: "brush", min: 10, max: 300, step: 5, digits: 0 },
+  { key: "repelStrength", label: "Repel", group: "brush", min: 0, max: 600, step: 10, digits: 0 },
+  { key: "swirlStrength", label: "Swirl", group: "brush", min: 0, max: 10, step: 0.1, digits: 1 },
+  { key: "veilPush", label: "Veil push", group: "brush", min: 0, max: 800, step: 10, digits: 0 },
+  { key: "tauRadius", label: "Radius recovery (s)", group: "brush", min: 0.1, max: 5, step: 0.1, digits: 1 },
+  { key: "tauOmega", label: "Spin recovery (s)", group: "brush", min: 0.1, max: 5, step: 0.1, digits: 1 },
+];
+
+export function defaultPhysics(): Physics {
+  const out = {} as Physics;
+  for (const { key } of TUNING_SPECS) out[key] = ORBIT_DEFAULTS[key];
+  return out;
+}
+
+// 夹到滑块的范围里，整数的（digits 0）取整：文件里的 "maxLanes": 0 会让 orbit 没有位置
+function clampToSpec({ min, max, digits }: TuningSpec, v: number) {
+  const clamped = Math.min(max, Math.max(min, v));
+  return digits === 0 ? Math.round(clamped) : clamped;
+}
+
+// 把一组值写进 ORBIT（缺的 / 不是数字的用出厂值）
+export function applyPhysics(values: Partial<Physics>) {
+  for (const spec of TUNING_SPECS) {
+    const v = values[spec.key];
+    ORBIT[spec.key] = typeof v === "number" && Number.isFinite(v) ? clampToSpec(spec, v) : ORBIT_DEFAULTS[spec.key];
+  }
+}
+
+// --- Presets ---
+
+export type PhysicsPreset = { name: string; values: Partial<Physics> };
+
+export const BUILTIN_PHYSICS_PRESETS: PhysicsPreset[] = [
+  { name: "Default", values: {} },
+  {
+    name: "Calm",
+    values: { orbitOmega: 0.5, veilOmega: 0.25, veilDriftAmp: 0.04, veilReturnTau: 3.5, repelStrength: 90 },
+  },
+  {
+    name: "Lively",
+    values: { orbitOmega: 1.5, veilOmega: 0.8, veilDriftAmp: 0.14, veilDriftFreq: 2, swirlStrength: 5 },
+  },
+  {
+    name: "Wide veil",
+    values: { veilPadX: 1.2, veilPadY: 1.25, veilDriftAmp: 0.12 },
+  },
+  {
+    name: "Wide rings",
+    values: { maxLanes: 8, laneGap: 42, baseRScale: 1.1, laneCapacity: 20 },
+  },
+];
+
+// 存档里自己存的 preset：有名字和 values 就行（值在 applyPhysics 里再检查一遍）
+export function isPhysicsPreset(json: unknown): json is PhysicsPreset {
+  const p = json as { name?: unknown; values?: unknown } | null;
+  return !!p && typeof p.name === "string" && !!p.values && typeof p.values === "object" && !Array.isArray(p.values);
+}
+
+function parseOne(json: unknown): PhysicsPreset {
+  const p = json as { name?: unknown; values?: unknown };
+  if (!p || typeof p !== "object" || !p.values || typeof p.values !== "object") {
+    throw new Error("Not a physics preset");
+  }
+  const values: Partial<Physics> = {};
+  for (const spec of TUNING_SPECS) {
+    const v = (p.values as Record<string, unknown>)[spec.key];
+    if (typeof v === "number" && Number.isFinite(v)) values[spec.key] = clampToSpec(spec, v);
+  }
+  return { name: typeof p.name === "string" && p.name ? p.name : "Imported", values };
+}
+
+// 文件里可以是一个 preset，也可以是一组
+export function parsePhysicsPresets(json: unknown): PhysicsPreset[] {
+  return Array.isArray(json) ? json.map(parseOne) : [parseOne(json)];
+}
+
+export async function fetchPhysicsPresets(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return parsePhysicsPresets(await res.json());
+}
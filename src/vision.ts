@@ -0,0 +1,233 @@
+import {
+  FilesetResolver,
+  FaceLandmarker,
+  HandLandmarker,
+  ImageSegmenter,
+} from "@mediapipe/tasks-vision";
+
+// --- Vision loading: local-first models, GPU -> CPU fallback, per-stage progress ---
+
+export type StageId = "camera" | "runtime" | "face" | "hand" | "segment";
+
+export type LoadStage = {
+  id: StageId;
+  label: string;
+  state: "pending" | "active" | "done" | "error";
+  progress: number; // 0..1
+  detail: string;
+};
+
+export type Delegate = "GPU" | "CPU";
+
+export type VisionConfig = {
+  wasmBaseUrl: string;
+  modelBaseUrl: string;
+  delegate: Delegate;
+  numFaces: number;
+  numHands: number;
+};
+
+type Fileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+export type Vision = {
+  fileset: Fileset; // 之后按需加载的任务（分割）复用同一个 runtime
+  faceLandmarker: FaceLandmarker;
+  handLandmarker: HandLandmarker;
+  delegate: Delegate;
+};
+
+const FACE_MODEL = "face_landmarker.task";
+const HAND_MODEL = "hand_landmarker.task";
+// 0 背景 / 1 头发 / 2 皮肤 / 3 脸 / 4 衣服 / 5 其他（帽子等）
+const SEGMENT_MODEL = "selfie_multiclass_256x256.tflite";
+
+// 本地没有模型时（开发机）才会用到的在线地址
+const REMOTE_MODELS: Record<string, string> = {
+  [FACE_MODEL]:
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+  [HAND_MODEL]:
+    "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+  [SEGMENT_MODEL]:
+    "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_multiclass_256x256/float32/latest/selfie_multiclass_256x256.tflite",
+};
+
+export function createLoadStages(): LoadStage[] {
+  return [
+    { id: "camera", label: "Camera", state: "pending", progress: 0, detail: "" },
+    { id: "runtime", label: "Vision runtime", state: "pending", progress: 0, detail: "" },
+    { id: "face", label: "Face model", state: "pending", progress: 0, detail: "" },
+    { id: "hand", label: "Hand model", state: "pending", progress: 0, detail: "" },
+  ];
+}
+
+export function getStage(stages: LoadStage[], id: StageId) {
+  return stages.find((s) => s.id === id)!;
+}
+
+// 优先级：URL 参数 > 构建时 env (VITE_*) > 默认（跟 dist/ 一起打包的本地文件）
+//   ?models=https://kiosk.local/models  ?wasm=/wasm  ?delegate=cpu
+export function resolveVisionConfig(numFaces: number, numHands: number): VisionConfig {
+  const params = new URLSearchParams(window.location.search);
+  const env = import.meta.env;
+
+  const trimSlash = (s: string) => s.replace(/\/+$/, "");
+  const delegate = (params.get("delegate") ?? env.VITE_VISION_DELEGATE ?? "GPU").toUpperCase();
+
+  return {
+    wasmBaseUrl: trimSlash(params.get("wasm") ?? env.VITE_WASM_BASE_URL ?? "/wasm"),
+    modelBaseUrl: trimSlash(params.get("models") ?? env.VITE_MODEL_BASE_URL ?? "/models"),
+    delegate: delegate === "CPU" ? "CPU" : "GPU",
+    numFaces,
+    numHands,
+  };
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`Timeout: ${label} exceeded ${ms}ms`)), ms)
+    ),
+  ]);
+}
+
+// fetch + 读取 body 流，这样才能显示真实的下载进度
+async function fetchWithProgress(url: string, onProgress: (p: number) => void) {
+  const res = await fetch(url);
+  if (!res.ok || !res.body) throw new Error(`${url}: HTTP ${res.status}`);
+
+  // dev server 对不存在的文件会回退到 index.html
+  const type = res.headers.get("content-type") ?? "";
+  if (type.includes("text/html")) throw new Error(`${url}: not found`);
+
+  const total = Number(res.headers.get("content-length")) || 0;
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (total) onProgress(Math.min(1, received / total));
+  }
+
+  const out = new Uint8Array(received);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  onProgress(1);
+  return out;
+}
+
+async function loadModelAsset(config: VisionConfig, file: string, stage: LoadStage) {
+  const local = `${config.modelBaseUrl}/${file}`;
+  const onProgress = (p: number) => {
+    stage.progress = p * 0.8; // 剩下 20% 留给 createFromOptions
+  };
+
+  try {
+    stage.detail = local;
+    return await withTimeout(fetchWithProgress(local, onProgress), 60000, file);
+  } catch (err) {
+    if (!navigator.onLine) throw err;
+    console.warn(`Local model ${local} unavailable, trying remote:`, err);
+    stage.detail = "downloading…";
+    return await withTimeout(fetchWithProgress(REMOTE_MODELS[file], onProgress), 60000, file);
+  }
+}
+
+// 先用首选 delegate 创建，失败就自动退回 CPU
+async function createWithFallback<T>(
+  preferred: Delegate,
+  stage: LoadStage,
+  create: (delegate: Delegate) => Promise<T>
+): Promise<{ task: T; delegate: Delegate }> {
+  try {
+    return { task: await withTimeout(create(preferred), 30000, stage.label), delegate: preferred };
+  } catch (err) {
+    if (preferred === "CPU") throw err;
+    console.warn(`${stage.label}: GPU delegate failed, retrying on CPU`, err);
+    stage.detail = "GPU unavailable, using CPU";
+    return { task: await withTimeout(create("CPU"), 30000, stage.label), delegate: "CPU" };
+  }
+}
+
+async function runStage<T>(stage: LoadStage, work: () => Promise<T>) {
+  stage.state = "active";
+  try {
+    const result = await work();
+    stage.state = "done";
+    stage.progress = 1;
+    return result;
+  } catch (err) {
+    stage.state = "error";
+    stage.detail = String(err);
+    throw err;
+  }
+}
+
+export async function loadVision(config: VisionConfig, stages: LoadStage[]): Promise<Vision> {
+  const vision = await runStage(getStage(stages, "runtime"), () =>
+    withTimeout(FilesetResolver.forVisionTasks(config.wasmBaseUrl), 15000, "FilesetResolver")
+  );
+
+  // 一旦 face 退回了 CPU，hand 就不用再试 GPU
+  let delegate = config.delegate;
+
+  const faceStage = getStage(stages, "face");
+  const face = await runStage(faceStage, async () => {
+    const buffer = await loadModelAsset(config, FACE_MODEL, faceStage);
+    return createWithFallback(delegate, faceStage, (d) =>
+      FaceLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetBuffer: buffer, delegate: d },
+        runningMode: "VIDEO",
+        numFaces: config.numFaces,
+        outputFacialTransformationMatrixes: true, // 头的 yaw / pitch / roll（3D orbit 用）
+      })
+    );
+  });
+  delegate = face.delegate;
+
+  const handStage = getStage(stages, "hand");
+  const hand = await runStage(handStage, async () => {
+    const buffer = await loadModelAsset(config, HAND_MODEL, handStage);
+    return createWithFallback(delegate, handStage, (d) =>
+      HandLandmarker.createFromOptions(vision, {
+        baseOptions: { modelAssetBuffer: buffer, delegate: d },
+        runningMode: "VIDEO",
+        numHands: config.numHands,
+      })
+    );
+  });
+
+  return {
+    fileset: vision,
+    faceLandmarker: face.task,
+    handLandmarker: hand.task,
+    delegate: hand.delegate,
+  };
+}
+
+export function createSegmentStage(): LoadStage {
+  return { id: "segment", label: "Segmentation model", state: "pending", progress: 0, detail: "" };
+}
+
+// 只在打开“分割遮挡”时才加载（模型 + 每帧推理都不便宜）
+export async function loadSegmenter(vision: Vision, config: VisionConfig, stage: LoadStage) {
+  const segment = await runStage(stage, async () => {
+    const buffer = await loadModelAsset(config, SEGMENT_MODEL, stage);
+    return createWithFallback(vision.delegate, stage, (d) =>
+      ImageSegmenter.createFromOptions(vision.fileset, {
+        baseOptions: { modelAssetBuffer: buffer, delegate: d },
+        runningMode: "VIDEO",
+        outputConfidenceMasks: true,
+        outputCategoryMask: false,
+      })
+    );
+  });
+  return segment.task;
+}
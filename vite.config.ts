@@ -1,17 +1,40 @@
 import { defineConfig } from 'vite'
-import { cpSync, mkdirSync } from 'fs'
+import { cpSync, existsSync, mkdirSync } from 'fs'
 import { resolve } from 'path'
 
+// Served from /models (public/models), fetched by scripts/fetch-models.mjs
+const MODEL_FILES = ['face_landmarker.task', 'hand_landmarker.task', 'selfie_multiclass_256x256.tflite']
+
 export default defineConfig({
+  build: {
+    rollupOptions: {
+      // submit.html: phone page for remote submissions (server/relay.mjs)
+      input: [resolve('index.html'), resolve('submit.html')]
+    }
+  },
+  server: {
+    // `npm run relay` in another terminal; the relay sees the proxy as loopback,
+    // so set RELAY_OPERATOR_TOKEN if the dev server is reachable from the LAN
+    proxy: { '/api': 'http://localhost:8787' }
+  },
   plugins: [
     {
       name: 'copy-mediapipe-wasm',
+      apply: 'build',
       closeBundle() {
         const src = resolve('node_modules/@mediapipe/tasks-vision/wasm')
         const dest = resolve('dist/wasm')
         mkdirSync(dest, { recursive: true })
         cpSync(src, dest, { recursive: true })
         console.log('MediaPipe WASM copied to dist/wasm')
+
+        const missing = MODEL_FILES.filter((f) => !existsSync(resolve('dist/models', f)))
+        if (missing.length) {
+          console.warn(
+            `Local models missing (${missing.join(', ')}): the app will need internet. ` +
+              'Run "npm run fetch-models" before building for offline use.'
+          )
+        }
       }
     }
   ]